@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import express from 'express';
+import { logger } from './logger';
+
+export type AuthType = 'none' | 'service_http' | 'oauth'
+
+export interface AuthConfig {
+  type: AuthType
+  // service_http: the bearer token clients must send
+  token?: string
+  // oauth: the credentials of the one registered client
+  clientId?: string
+  clientSecret?: string
+  redirectUris: string[]
+  // the token OpenAI gives when registering the plugin, echoed back in the manifest
+  verificationToken?: string
+}
+
+const AUTHORIZATION_CODE_TTL = 5 * 60 * 1000
+const ACCESS_TOKEN_TTL = 24 * 60 * 60 * 1000
+
+// Issued by the stand-in authorization server, kept in memory only
+const authorizationCodes = new Map<string, { redirectUri: string, expiresAt: number }>()
+const accessTokens = new Map<string, number>()
+
+/**
+ * Reads the authentication settings from the environment:
+ *  - AUTH_TYPE: none (default), service_http or oauth
+ *  - AUTH_TOKEN: the bearer token for service_http
+ *  - OAUTH_CLIENT_ID, OAUTH_CLIENT_SECRET: the client credentials for oauth
+ *  - OAUTH_REDIRECT_URIS: comma separated redirect URI prefixes, defaults to ChatGPT
+ *  - OPENAI_VERIFICATION_TOKEN: advertised in the manifest
+ */
+export function getAuthConfig(env = process.env): AuthConfig {
+  const type = (env.AUTH_TYPE ?? 'none') as AuthType
+  const config: AuthConfig = {
+    type,
+    token: env.AUTH_TOKEN,
+    clientId: env.OAUTH_CLIENT_ID,
+    clientSecret: env.OAUTH_CLIENT_SECRET,
+    redirectUris: (env.OAUTH_REDIRECT_URIS ?? 'https://chat.openai.com/aip/').split(',').map(uri => uri.trim()).filter(Boolean),
+    verificationToken: env.OPENAI_VERIFICATION_TOKEN,
+  }
+  if (!['none', 'service_http', 'oauth'].includes(type))
+    throw new Error(`Unknown AUTH_TYPE ${type}, expected none, service_http or oauth`)
+  if (type === 'service_http' && !config.token)
+    throw new Error('AUTH_TYPE=service_http requires AUTH_TOKEN')
+  if (type === 'oauth' && !(config.clientId && config.clientSecret))
+    throw new Error('AUTH_TYPE=oauth requires OAUTH_CLIENT_ID and OAUTH_CLIENT_SECRET')
+  return config
+}
+
+/**
+ * Builds the `auth` block of the plugin manifest for the configured authentication.
+ * doc: https://platform.openai.com/docs/plugins/authentication
+ *
+ * @param {AuthConfig} config - The authentication settings.
+ * @param {string} baseUrl - The URL the plugin is served at.
+ */
+export function manifestAuth(config: AuthConfig, baseUrl: string) {
+  const verification_tokens = config.verificationToken ? { openai: config.verificationToken } : undefined
+  switch (config.type) {
+    case 'service_http':
+      return { type: 'service_http', authorization_type: 'bearer', verification_tokens }
+    case 'oauth':
+      return {
+        type: 'oauth',
+        client_url: `${baseUrl}/oauth/authorize`,
+        scope: '',
+        authorization_url: `${baseUrl}/oauth/token`,
+        authorization_content_type: 'application/json',
+        verification_tokens,
+      }
+    default:
+      return { type: 'none' }
+  }
+}
+
+// Compares secrets in constant time
+const safeEqual = (a: string, b: string) => {
+  const hashA = crypto.createHash('sha256').update(a).digest()
+  const hashB = crypto.createHash('sha256').update(b).digest()
+  return crypto.timingSafeEqual(hashA, hashB)
+}
+
+const newToken = () => crypto.randomBytes(32).toString('hex')
+
+function isValidToken(config: AuthConfig, token: string) {
+  if (config.type === 'service_http')
+    return safeEqual(token, config.token ?? '')
+  const expiresAt = accessTokens.get(token)
+  if (expiresAt && expiresAt < Date.now())
+    accessTokens.delete(token)
+  return !!expiresAt && expiresAt >= Date.now()
+}
+
+/**
+ * Creates the middleware that requires a valid bearer token on every request
+ * that reaches it. Mount it after the routes that stay public.
+ *
+ * @param {AuthConfig} config - The authentication settings.
+ */
+export function authenticate(config: AuthConfig): express.RequestHandler {
+  return (req, res, next) => {
+    if (config.type === 'none')
+      return next()
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ')
+    if (scheme?.toLowerCase() !== 'bearer' || !token || !isValidToken(config, token)) {
+      logger.info(`Rejected unauthenticated request to ${req.path}`)
+      return res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Authentication required' })
+    }
+    next()
+  }
+}
+
+/**
+ * Handles GET requests to /oauth/authorize.
+ * A stand-in authorization server for local use: the plugin runs on the user's
+ * machine, so the request is approved right away and redirected back with a code.
+ */
+const authorize = (config: AuthConfig): express.RequestHandler => (req, res) => {
+  const { client_id, redirect_uri, state, response_type } = req.query
+  if (response_type !== undefined && response_type !== 'code')
+    return res.status(400).json({ error: 'unsupported_response_type' })
+  if (typeof client_id !== 'string' || !safeEqual(client_id, config.clientId ?? ''))
+    return res.status(400).json({ error: 'invalid_client' })
+  if (typeof redirect_uri !== 'string' || !config.redirectUris.some(prefix => redirect_uri.startsWith(prefix)))
+    return res.status(400).json({ error: 'invalid_request', error_description: 'redirect_uri is not allowed' })
+
+  const code = newToken()
+  authorizationCodes.set(code, { redirectUri: redirect_uri, expiresAt: Date.now() + AUTHORIZATION_CODE_TTL })
+  const location = new URL(redirect_uri)
+  location.searchParams.set('code', code)
+  if (typeof state === 'string')
+    location.searchParams.set('state', state)
+  res.redirect(location.toString())
+}
+
+/**
+ * Handles POST requests to /oauth/token.
+ * Exchanges an authorization code for an access token.
+ */
+const token = (config: AuthConfig): express.RequestHandler => (req, res) => {
+  const { grant_type, code, client_id, client_secret, redirect_uri } = req.body ?? {}
+  if (grant_type !== 'authorization_code')
+    return res.status(400).json({ error: 'unsupported_grant_type' })
+  if (typeof client_id !== 'string' || typeof client_secret !== 'string'
+    || !safeEqual(client_id, config.clientId ?? '') || !safeEqual(client_secret, config.clientSecret ?? ''))
+    return res.status(401).json({ error: 'invalid_client' })
+
+  const issued = typeof code === 'string' ? authorizationCodes.get(code) : undefined
+  // codes are single use
+  if (issued)
+    authorizationCodes.delete(code)
+  if (!issued || issued.expiresAt < Date.now() || (redirect_uri !== undefined && redirect_uri !== issued.redirectUri))
+    return res.status(400).json({ error: 'invalid_grant' })
+
+  const accessToken = newToken()
+  accessTokens.set(accessToken, Date.now() + ACCESS_TOKEN_TTL)
+  logger.info('Issued an OAuth access token')
+  res.json({ access_token: accessToken, token_type: 'bearer', expires_in: ACCESS_TOKEN_TTL / 1000 })
+}
+
+/**
+ * Creates the routes of the stand-in OAuth authorization server.
+ * They are only mounted when AUTH_TYPE is oauth.
+ *
+ * @param {AuthConfig} config - The authentication settings.
+ */
+export function oauthRouter(config: AuthConfig): express.Router {
+  const router = express.Router()
+  if (config.type === 'oauth')
+    router
+      .get('/oauth/authorize', authorize(config))
+      .post('/oauth/token', express.urlencoded({ extended: false }), token(config))
+  return router
+}
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { FileSlice, sliceFileContent } from './file-utils';
+import { getFunctionData } from './function-utils';
+import { describeParseError } from './parsers';
+import { resolveSandboxedPath } from './sandbox';
+
+// Budget for the contents of a whole batch when the request sets none
+export const DEFAULT_BATCH_CHARS = 100000
+
+/**
+ * One thing to read: a whole file, a function in it, or a range of its lines.
+ * Requests may also give `file` or `file#function` as a plain string.
+ */
+export interface BatchItem {
+  fileName: string
+  functionName?: string
+  startLine?: number
+  endLine?: number
+}
+
+export type BatchResult = BatchItem & { index: number } & (FileSlice | { error: string })
+
+export interface BatchRead {
+  items: BatchResult[]
+  // items left out because the budget ran out, in request order
+  omitted: (BatchItem & { index: number })[]
+  totalChars: number
+  maxChars: number
+  truncated: boolean
+}
+
+/**
+ * Turns a request item into a BatchItem, splitting `file#function` strings on the last `#`.
+ *
+ * @param {string|BatchItem} item - The item from the request.
+ */
+export function toBatchItem(item: string | BatchItem): BatchItem {
+  if (typeof item !== 'string')
+    return item
+  const hash = item.lastIndexOf('#')
+  return hash > 0 ? { fileName: item.slice(0, hash), functionName: item.slice(hash + 1) } : { fileName: item }
+}
+
+// The message the single item routes would answer with
+function describeItemError(err: unknown): string {
+  // errors of node itself may come from another realm, so they are narrowed by shape rather than instanceof
+  const { code, name, message } = (typeof err === 'object' && err !== null ? err : {}) as Partial<NodeJS.ErrnoException>
+  if (code === 'ENOENT')
+    return 'File not found'
+  if (code === 'EISDIR')
+    return 'Is a directory, list it with GET /files/{fileName}'
+  if (name === 'TSError')
+    return `Syntax error: ${describeParseError(err)}`
+  return message ?? `${err}`
+}
+
+/**
+ * Reads several files, functions and line ranges at once. Items are read in
+ * request order and their contents share one budget: the item that does not fit
+ * is cut at the last whole line within what is left, with a cursor to read on
+ * through GET /files/{fileName}, and every later item is omitted. The same
+ * request on the same files is therefore always cut at the same place.
+ * A failing item, e.g. a missing file or function, gets an error of its own
+ * and does not use up the budget.
+ *
+ * @param {string} root - The project root.
+ * @param {BatchItem[]} items - What to read.
+ * @param {number} maxChars - The budget for the contents of all items.
+ */
+export async function readBatch(root: string, items: BatchItem[], maxChars = DEFAULT_BATCH_CHARS): Promise<BatchRead> {
+  const result: BatchRead = { items: [], omitted: [], totalChars: 0, maxChars, truncated: false }
+  // every file is read once, so items of the same file see the same content
+  const contents = new Map<string, Promise<string>>()
+
+  for (const [index, item] of items.entries()) {
+    if (result.truncated) {
+      result.omitted.push({ index, ...item })
+      continue
+    }
+    try {
+      const filePath = await resolveSandboxedPath(root, item.fileName)
+      const fileName = path.relative(root, filePath)
+      if (!contents.has(filePath))
+        contents.set(filePath, fs.promises.readFile(filePath, 'utf8'))
+      const fileContent = await contents.get(filePath) as string
+
+      let range: { startByte?: number, endByte?: number } = {}
+      if (item.functionName) {
+        const functionData = await getFunctionData(item.functionName, filePath)
+        if (!functionData)
+          throw new Error(`Function ${item.functionName} not found`)
+        range = { startByte: functionData.startByte, endByte: functionData.endByte }
+      }
+      const slice = sliceFileContent(fileContent, {
+        ...range,
+        startLine: item.startLine,
+        endLine: item.endLine,
+        maxChars: maxChars - result.totalChars,
+      })
+      result.items.push({ index, ...item, fileName, ...slice })
+      result.totalChars += slice.content.length
+      result.truncated = slice.truncated
+    } catch (err) {
+      result.items.push({ index, ...item, error: describeItemError(err) })
+    }
+  }
+  return result
+}
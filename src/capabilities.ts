@@ -0,0 +1,76 @@
+import express from 'express';
+import { logger } from './logger';
+
+export type Capability = 'read' | 'write' | 'execute' | 'dependencies'
+
+// Named sets of capabilities, selected with the PROFILE environment variable
+export const PROFILES: Record<string, Capability[]> = {
+  'read-only': ['read'],
+  'edit': ['read', 'write'],
+  'full': ['read', 'write', 'execute', 'dependencies'],
+}
+
+export interface CapabilityProfile {
+  name: string
+  capabilities: Set<Capability>
+}
+
+// What the model is told it can do, one sentence per capability
+const MODEL_DESCRIPTIONS: Record<Capability, string> = {
+  read: 'Read files with code: fetch full and minimal versions of files and functions, search code, navigate symbols and type-check.',
+  write: 'Create and edit files and functions.',
+  execute: 'Run test commands.',
+  dependencies: 'Add, remove and update project dependencies.',
+}
+
+/**
+ * Reads the capability profile from the PROFILE environment variable, `full` by default.
+ */
+export function getProfile(name = process.env.PROFILE ?? 'full'): CapabilityProfile {
+  const capabilities = PROFILES[name]
+  if (!capabilities)
+    throw new Error(`Unknown PROFILE ${name}, expected one of ${Object.keys(PROFILES).join(', ')}`)
+  return { name, capabilities: new Set(capabilities) }
+}
+
+/**
+ * Creates a middleware that rejects requests the profile does not allow.
+ *
+ * @param {Function} profileOf - Picks the profile of a request, e.g. the one of the project it works on.
+ * @param {Capability} capability - The capability the route needs.
+ * @param {Function} applies - Optional check whether the request needs the capability at all.
+ */
+export function requireCapability(profileOf: (req: express.Request) => CapabilityProfile, capability: Capability, applies = (req: express.Request) => true): express.RequestHandler {
+  return (req, res, next) => {
+    const profile = profileOf(req)
+    if (profile.capabilities.has(capability) || !applies(req))
+      return next()
+    logger.info(`Rejected ${req.method} ${req.path}, the ${profile.name} profile does not allow ${capability}`)
+    res.status(403).json({ error: `The ${profile.name} profile does not allow ${capability} operations.`, capability })
+  }
+}
+
+/**
+ * Tells whether the profile allows any request to a route, with the rule of
+ * requireCapability: a route that only needs the capability for some of its
+ * requests, e.g. a refactoring that is not a dry run, is allowed for the others.
+ *
+ * @param {CapabilityProfile} profile - The active profile.
+ * @param {Capability} capability - The capability the route needs.
+ * @param {Function} applies - Optional check whether a request needs the capability at all.
+ */
+export function allowsRoute(profile: CapabilityProfile, capability: Capability, applies?: (req: express.Request) => boolean) {
+  return profile.capabilities.has(capability) || applies !== undefined
+}
+
+/**
+ * Describes what the model can do with the profile, for the plugin manifest.
+ *
+ * @param {CapabilityProfile} profile - The active profile.
+ */
+export function describeForModel(profile: CapabilityProfile) {
+  return (Object.keys(MODEL_DESCRIPTIONS) as Capability[])
+    .filter(capability => profile.capabilities.has(capability))
+    .map(capability => MODEL_DESCRIPTIONS[capability])
+    .join(' ')
+}
@@ -1,15 +1,13 @@
-import { spawn } from 'child_process';
-
-const ALLOWED_COMMANDS = [
-  'yarn test',
-  'yarn run coverage',
-  'yarn install',
-  'yarn coverage',
-  'npm test',
-  'npm run test',
-  'npm run coverage',
-  'npm install',
-]
+import { ChildProcess, spawn } from 'child_process';
+import crypto from 'crypto';
+import { checkCommandPolicy, parseCommandLine } from './command-policy';
+
+// Limits for background jobs started with startJob
+const MAX_RUNNING_JOBS = +(process.env.MAX_RUNNING_JOBS ?? 4)
+const MAX_JOB_OUTPUT = +(process.env.MAX_JOB_OUTPUT ?? 1024 * 1024) // characters kept per stream
+const MAX_FINISHED_JOBS = 50 // per project
+const FINISHED_JOB_TTL = 30 * 60 * 1000
+const KILL_GRACE_PERIOD = 5000
 
 export type CommandResult = {
   exitCode: number|null
@@ -17,23 +15,67 @@ export type CommandResult = {
   stderr: string
 }
 
+export type JobStatus = 'running' | 'exited' | 'cancelled' | 'failed'
+
+// Output of a job stream, only the last MAX_JOB_OUTPUT characters are retained
+type JobOutput = {
+  data: string
+  dropped: number
+}
+
+type Job = {
+  id: string
+  command: string
+  status: JobStatus
+  exitCode: number|null
+  signal: NodeJS.Signals|null
+  error?: string
+  startedAt: Date
+  finishedAt?: Date
+  stdout: JobOutput
+  stderr: JobOutput
+  childProcess: ChildProcess
+}
+
+export type JobOutputChunk = {
+  offset: number
+  nextOffset: number
+  data: string
+  truncated: boolean
+}
+
+export type JobInfo = Omit<Job, 'childProcess' | 'stdout' | 'stderr'> & {
+  stdout: JobOutputChunk
+  stderr: JobOutputChunk
+}
+
+// Jobs of each project, by project root, so a project never sees the jobs of another
+const jobs = new Map<string, Map<string, Job>>()
+
+// Parses a command and, in strict mode, checks it against the project's command policy
+function checkCommand(command: string, base_path: string, strict: boolean) {
+  if (!command)
+    throw new Error('Command is required')
+
+  const argv = parseCommandLine(command)
+  if (strict)
+    checkCommandPolicy(argv, base_path)
+  return argv
+}
+
 /**
  * Executes a command and returns stdout, stderr and exit code.
  *
  * @param {string} command - The command to execute
  */
 export function runCommand (command: string, base_path: string, strict = true) {
-  if (!command)
-    throw new Error('Command is required')
-
-  if (strict && !ALLOWED_COMMANDS.includes(command.trim()))
-    throw new Error(`Allowed commands are strictly ${ALLOWED_COMMANDS.join(',')}. This command is not allowed.`)
+  const [executable, ...args] = checkCommand(command, base_path, strict)
 
   return new Promise<CommandResult>(
     (resolve, reject) => {
-      const childProcess = spawn(command, {
+      const childProcess = spawn(executable, args, {
         cwd: base_path,
-        shell: true,
+        shell: false,
       })
 
       let stdout = ''
@@ -51,3 +93,141 @@ export function runCommand (command: string, base_path: string, strict = true) {
       childProcess.on('error', error => reject(error))
     })
 }
+
+function appendOutput(output: JobOutput, data: string) {
+  output.data += data
+  if (output.data.length > MAX_JOB_OUTPUT) {
+    output.dropped += output.data.length - MAX_JOB_OUTPUT
+    output.data = output.data.slice(-MAX_JOB_OUTPUT)
+  }
+}
+
+// Drops finished jobs that expired, and the oldest ones over the limit of their project
+function pruneJobs() {
+  const expired = Date.now() - FINISHED_JOB_TTL
+  for (const [base_path, projectJobs] of jobs) {
+    const finished = [...projectJobs.values()].filter(job => job.finishedAt)
+    finished.forEach((job, i) => {
+      if ((job.finishedAt?.getTime() ?? 0) < expired || i < finished.length - MAX_FINISHED_JOBS)
+        projectJobs.delete(job.id)
+    })
+    if (!projectJobs.size)
+      jobs.delete(base_path)
+  }
+}
+
+function finishJob(job: Job, status: JobStatus, exitCode: number|null, signal: NodeJS.Signals|null) {
+  if (job.finishedAt)
+    return
+  job.status = job.status === 'cancelled' ? 'cancelled' : status
+  job.exitCode = exitCode
+  job.signal = signal
+  job.finishedAt = new Date()
+}
+
+/**
+ * Starts a command in the background and returns its job id right away.
+ * Output is collected as it arrives and can be read with getJob, for the same project.
+ *
+ * @param {string} command - The command to execute
+ * @param {string} base_path - The root of the project to run it in
+ */
+export function startJob (command: string, base_path: string, strict = true): string {
+  const [executable, ...args] = checkCommand(command, base_path, strict)
+  pruneJobs()
+
+  // the limit is shared by every project, they all run on this machine
+  const running = [...jobs.values()].flatMap(projectJobs => [...projectJobs.values()]).filter(job => job.status === 'running').length
+  if (running >= MAX_RUNNING_JOBS)
+    throw Object.assign(new Error(`At most ${MAX_RUNNING_JOBS} jobs can run at the same time.`), { code: 'EBUSY' })
+
+  const childProcess = spawn(executable, args, {
+    cwd: base_path,
+    shell: false,
+    // own process group, so cancelling also stops the processes it started
+    detached: true,
+  })
+
+  const job: Job = {
+    id: crypto.randomUUID(),
+    command,
+    status: 'running',
+    exitCode: null,
+    signal: null,
+    startedAt: new Date(),
+    stdout: { data: '', dropped: 0 },
+    stderr: { data: '', dropped: 0 },
+    childProcess,
+  }
+  jobs.set(base_path, (jobs.get(base_path) ?? new Map()).set(job.id, job))
+
+  childProcess.stdout?.on('data', data => appendOutput(job.stdout, `${data}`))
+  childProcess.stderr?.on('data', data => appendOutput(job.stderr, `${data}`))
+  childProcess.on('close', (exitCode, signal) => finishJob(job, 'exited', exitCode, signal))
+  childProcess.on('error', error => {
+    job.error = error.message
+    finishJob(job, 'failed', null, null)
+  })
+
+  return job.id
+}
+
+function readOutput(output: JobOutput, offset: number): JobOutputChunk {
+  const end = output.dropped + output.data.length
+  const start = Math.min(Math.max(offset, output.dropped), end)
+  return {
+    offset: start,
+    nextOffset: end,
+    data: output.data.slice(start - output.dropped),
+    truncated: offset < output.dropped,
+  }
+}
+
+/**
+ * Returns the status of a job and its output from the given offsets on.
+ * Offsets count characters since the job started, pass the previous
+ * `nextOffset` to only receive new output.
+ *
+ * @param {string} base_path - The root of the project the job was started in
+ * @param {string} id - The job id
+ */
+export function getJob (base_path: string, id: string, stdoutOffset = 0, stderrOffset = 0): JobInfo | undefined {
+  const job = jobs.get(base_path)?.get(id)
+  if (!job)
+    return
+  const { childProcess, stdout, stderr, ...info } = job
+  return {
+    ...info,
+    stdout: readOutput(stdout, stdoutOffset),
+    stderr: readOutput(stderr, stderrOffset),
+  }
+}
+
+/**
+ * Cancels a running job. The process group gets SIGTERM, and SIGKILL
+ * when it is still running after a grace period.
+ *
+ * @param {string} base_path - The root of the project the job was started in
+ * @param {string} id - The job id
+ * @returns {boolean} false when there is no such job
+ */
+export function cancelJob (base_path: string, id: string): boolean {
+  const job = jobs.get(base_path)?.get(id)
+  if (!job)
+    return false
+  if (job.status !== 'running')
+    return true
+
+  job.status = 'cancelled'
+  const kill = (signal: NodeJS.Signals) => {
+    try {
+      if (job.childProcess.pid)
+        process.kill(-job.childProcess.pid, signal)
+    } catch (err) {
+      // the process group already exited
+    }
+  }
+  kill('SIGTERM')
+  setTimeout(() => { if (!job.finishedAt) kill('SIGKILL') }, KILL_GRACE_PERIOD).unref()
+  return true
+}
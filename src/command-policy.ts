@@ -0,0 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import { isOutside, realpathOfExisting } from './sandbox';
+
+/**
+ * A rule allows one executable with arguments matching `args`, one pattern per argument:
+ *  - a literal, or a glob using `*`, `?` and `{a,b}`
+ *  - `<path>`, a path that resolves inside the project
+ *  - any pattern ending in `...` matches zero or more arguments
+ */
+export interface CommandRule {
+  name?: string
+  executable: string
+  args: string[]
+}
+
+export interface CommandPolicy {
+  commands: CommandRule[]
+}
+
+export interface RuleFailure {
+  rule: string
+  reason: string
+}
+
+// Where the policy lives, relative to the served project
+export const POLICY_FILE = path.join('.code-plugin', 'commands.json')
+
+// Used when the project has no policy file
+const DEFAULT_POLICY: CommandPolicy = {
+  commands: [
+    { executable: 'yarn', args: ['test'] },
+    { executable: 'yarn', args: ['run', 'coverage'] },
+    { executable: 'yarn', args: ['install'] },
+    { executable: 'yarn', args: ['coverage'] },
+    { executable: 'npm', args: ['test'] },
+    { executable: 'npm', args: ['run', 'test'] },
+    { executable: 'npm', args: ['run', 'coverage'] },
+    { executable: 'npm', args: ['install'] },
+  ]
+}
+
+/**
+ * Raised when a command is not allowed by the policy.
+ * Lists, for every rule of the same executable, why it did not match.
+ */
+export class CommandDeniedError extends Error {
+  code = 'EPOLICY'
+
+  constructor(message: string, public command: string, public failures: RuleFailure[]) {
+    super(message)
+  }
+}
+
+const invalidCommand = (message: string) => Object.assign(new Error(message), { code: 'EINVAL' })
+
+const ruleName = (rule: CommandRule) => rule.name ?? [rule.executable, ...rule.args].join(' ')
+
+/**
+ * Splits a command line into arguments like a POSIX shell would, honouring
+ * single quotes, double quotes and backslash escapes. Shell operators such as
+ * pipes, redirections and variable expansion are rejected, since commands are
+ * never run through a shell.
+ *
+ * @param {string} command - The command line.
+ * @returns {string[]} The executable followed by its arguments.
+ */
+export function parseCommandLine(command: string): string[] {
+  const argv: string[] = []
+  let current: string | undefined
+  let quote: '"' | "'" | undefined
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]
+    if (quote) {
+      if (char === quote)
+        quote = undefined
+      else if (char === '\\' && quote === '"' && i + 1 < command.length)
+        current += command[++i]
+      else
+        current += char
+    } else if (char === '"' || char === "'") {
+      quote = char
+      current = current ?? ''
+    } else if (char === '\\' && i + 1 < command.length) {
+      current = (current ?? '') + command[++i]
+    } else if (/\s/.test(char)) {
+      if (current !== undefined)
+        argv.push(current)
+      current = undefined
+    } else if ('|&;<>()$`'.includes(char)) {
+      throw invalidCommand(`Shell operator "${char}" is not supported, commands are not run in a shell.`)
+    } else {
+      current = (current ?? '') + char
+    }
+  }
+
+  if (quote)
+    throw invalidCommand('Unterminated quote in command.')
+  if (current !== undefined)
+    argv.push(current)
+  return argv
+}
+
+/**
+ * Joins arguments into a command line that parseCommandLine splits back into the same arguments.
+ *
+ * @param {string[]} argv - The executable followed by its arguments.
+ */
+export function formatCommandLine(argv: string[]): string {
+  return argv.map(arg => /^[\w@%+=:,./^~-]+$/.test(arg) ? arg : `"${arg.replace(/["\\]/g, '\\$&')}"`).join(' ')
+}
+
+/**
+ * Reads the command policy of a project, falling back to the default policy.
+ *
+ * @param {string} root - The project root.
+ * @returns {CommandPolicy} The policy.
+ */
+export function loadCommandPolicy(root: string): CommandPolicy {
+  const policyPath = path.join(root, POLICY_FILE)
+  if (!fs.existsSync(policyPath))
+    return DEFAULT_POLICY
+  const policy = JSON.parse(fs.readFileSync(policyPath, 'utf8'))
+  if (!Array.isArray(policy?.commands) || !policy.commands.every((rule: CommandRule) => typeof rule.executable === 'string' && Array.isArray(rule.args)))
+    throw new Error(`Invalid command policy in ${POLICY_FILE}: expected { "commands": [{ "executable": string, "args": string[] }] }`)
+  return policy
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*')
+      source += '.*'
+    else if (char === '?')
+      source += '.'
+    else if (char === '{') {
+      const end = glob.indexOf('}', i)
+      if (end < 0) {
+        source += '\\{'
+        continue
+      }
+      source += '(?:' + glob.slice(i + 1, end).split(',').map(alternative => alternative.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|') + ')'
+      i = end
+    } else
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+  return new RegExp(`^${source}$`)
+}
+
+// Returns why an argument does not match a pattern, or undefined when it does
+function matchArgument(pattern: string, arg: string, root: string): string | undefined {
+  if (pattern === '<path>') {
+    if (arg.startsWith('-'))
+      return `"${arg}" is an option, not a path`
+    const filePath = path.resolve(root, arg)
+    if (isOutside(root, filePath))
+      return `path "${arg}" is outside of the project`
+    if (isOutside(fs.realpathSync(root), realpathOfExisting(filePath)))
+      return `path "${arg}" resolves outside of the project through a symbolic link`
+    return
+  }
+  if (!globToRegExp(pattern).test(arg))
+    return `"${arg}" does not match "${pattern}"`
+}
+
+// Matches arguments against patterns, returns undefined on success or the reason of the furthest failure
+function matchArguments(patterns: string[], args: string[], root: string): string | undefined {
+  const [pattern, ...restPatterns] = patterns
+  if (pattern === undefined)
+    return args.length ? `unexpected argument "${args[0]}"` : undefined
+
+  if (pattern.endsWith('...')) {
+    const single = pattern.slice(0, -3)
+    // try consuming as few arguments as possible first
+    let failure = matchArguments(restPatterns, args, root)
+    for (let i = 0; failure && i < args.length; i++) {
+      const argFailure = matchArgument(single, args[i], root)
+      if (argFailure)
+        return restPatterns.length ? failure : argFailure
+      failure = matchArguments(restPatterns, args.slice(i + 1), root)
+    }
+    return failure
+  }
+
+  if (!args.length)
+    return `missing argument for "${pattern}"`
+  return matchArgument(pattern, args[0], root) ?? matchArguments(restPatterns, args.slice(1), root)
+}
+
+/**
+ * Checks a parsed command against the policy of a project.
+ *
+ * @param {string[]} argv - The executable followed by its arguments.
+ * @param {string} root - The project root, `<path>` arguments must resolve inside of it.
+ * @throws {CommandDeniedError} When no rule allows the command.
+ */
+export function checkCommandPolicy(argv: string[], root: string) {
+  const [executable, ...args] = argv
+  const command = argv.join(' ')
+  if (!executable)
+    throw invalidCommand('Command is required')
+
+  const rules = loadCommandPolicy(root).commands.filter(rule => rule.executable === executable)
+  if (!rules.length)
+    throw new CommandDeniedError(`Executable "${executable}" is not allowed.`, command, [])
+
+  const failures: RuleFailure[] = []
+  for (const rule of rules) {
+    const reason = matchArguments(rule.args, args, root)
+    if (!reason)
+      return
+    failures.push({ rule: ruleName(rule), reason })
+  }
+  throw new CommandDeniedError(`Command "${command}" is not allowed by any rule for "${executable}".`, command, failures)
+}
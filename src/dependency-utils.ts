@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import semver from 'semver';
+import { detectPackageManager } from './package-managers';
+
+export type DependencyType = 'dependencies' | 'devDependencies' | 'optionalDependencies'
+
+// missing: not installed, unlocked: not in the lockfile, out-of-range: the lockfile does not
+// satisfy package.json, behind and ahead: the installed version differs from the locked one
+export type DependencyStatus = 'ok' | 'missing' | 'unlocked' | 'out-of-range' | 'behind-lockfile' | 'ahead-of-lockfile'
+
+export interface DependencyState {
+  name: string
+  type: DependencyType
+  // the range in package.json
+  wanted: string
+  locked: string | null
+  installed: string | null
+  status: DependencyStatus
+}
+
+const DEPENDENCY_TYPES: DependencyType[] = ['dependencies', 'devDependencies', 'optionalDependencies']
+
+const readJson = async (filePath: string) => JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+
+const readManifest = (root: string) => readJson(path.join(root, 'package.json'))
+
+/**
+ * The version of an installed package, null when it is not installed.
+ *
+ * @param {string} root - The project root.
+ * @param {string} name - The package.
+ */
+export async function getInstalledVersion(root: string, name: string): Promise<string | null> {
+  return readJson(path.join(root, 'node_modules', name, 'package.json')).then(manifest => manifest.version ?? null, () => null)
+}
+
+/**
+ * Reads the locked versions of the direct dependencies from the lockfile of
+ * the project's package manager.
+ *
+ * @param {string} root - The project root.
+ * @param {Map<string,string>} wanted - The dependencies and their ranges in package.json.
+ * @returns The name of the lockfile, null when there is none, and the locked versions.
+ */
+async function readLockedVersions(root: string, wanted: Map<string, string>) {
+  const { manager } = await detectPackageManager(root)
+  const content = await fs.promises.readFile(path.join(root, manager.lockfile), 'utf8').catch(() => undefined)
+  if (content === undefined)
+    return { lockfile: null, versions: new Map<string, string>() }
+  return { lockfile: manager.lockfile, versions: manager.readLockedVersions(content, wanted) }
+}
+
+function statusOf(wanted: string, locked: string | null, installed: string | null): DependencyStatus {
+  if (!installed)
+    return 'missing'
+  if (!locked)
+    return 'unlocked'
+  // ranges like git urls or workspace: protocols cannot be compared
+  if (semver.validRange(wanted) && semver.valid(locked) && !semver.satisfies(locked, wanted))
+    return 'out-of-range'
+  if (semver.valid(locked) && semver.valid(installed) && locked !== installed)
+    return semver.lt(installed, locked) ? 'behind-lockfile' : 'ahead-of-lockfile'
+  return 'ok'
+}
+
+/**
+ * Compares the direct dependencies in package.json, their versions in the
+ * lockfile and the ones installed in node_modules, without asking the registry.
+ * Dependencies that are missing, not locked, locked outside of their range, or
+ * installed at another version than the locked one are outdated.
+ *
+ * @param {string} root - The project root.
+ * @param {boolean} all - Whether to list the dependencies that are up to date too.
+ */
+export async function getOutdatedDependencies(root: string, all = false) {
+  const manifest = await readManifest(root)
+  const declared = DEPENDENCY_TYPES.flatMap(type =>
+    Object.entries<string>(manifest[type] ?? {}).map(([name, wanted]) => ({ name, type, wanted })))
+  const { lockfile, versions } = await readLockedVersions(root, new Map(declared.map(({ name, wanted }) => [name, wanted])))
+
+  const dependencies: DependencyState[] = []
+  for (const { name, type, wanted } of declared) {
+    const locked = versions.get(name) ?? null
+    const installed = await getInstalledVersion(root, name)
+    dependencies.push({ name, type, wanted, locked, installed, status: statusOf(wanted, locked, installed) })
+  }
+  return { lockfile, dependencies: all ? dependencies : dependencies.filter(({ status }) => status !== 'ok') }
+}
+
+/**
+ * Tells how a package is declared in package.json and which version is installed.
+ *
+ * @param {string} root - The project root.
+ * @param {string} name - The package.
+ */
+export async function getDeclaration(root: string, name: string) {
+  const manifest = await readManifest(root)
+  const type = DEPENDENCY_TYPES.find(type => manifest[type]?.[name] !== undefined)
+  return {
+    declared: type ? { type, wanted: manifest[type][name] as string } : null,
+    installed: await getInstalledVersion(root, name),
+  }
+}
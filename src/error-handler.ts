@@ -1,42 +1,324 @@
 import express from 'express'
-import { check, validationResult } from 'express-validator'
+import { checkSchema, validationResult } from 'express-validator'
+import semver from 'semver'
+import { PROFILES } from './capabilities'
 import { logger } from './logger'
 
-export const validateFileName =
-  check('0').isString().withMessage('File name should be a string')
+// npm package names, optionally scoped: lowercase, URL safe, at most 214 characters
+const PACKAGE_NAME = /^(?:@[a-z0-9-*~][a-z0-9-*._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/
+// dist-tags like latest or next, accepted where a version is expected
+const DIST_TAG = /^[a-z][a-z0-9._-]*$/i
 
-export const validateFunctionName =
-  check('functionName').isString().withMessage('Function name should be a string')
+const isPackageName = (name: unknown) =>
+  typeof name === 'string' && name.length <= 214 && PACKAGE_NAME.test(name)
 
-export const validateDependencyOperation =
-  check('operation').isString().isIn(['add','remove','update']).withMessage('Invalid operation. Must be one of "add", "remove", "update".')
+const isVersion = (version: unknown) =>
+  typeof version === 'string' && (semver.validRange(version) !== null || DIST_TAG.test(version))
 
-export const validatePackageName =
-  check('package').isString().withMessage('Package name is required.')
+export const validateFileName = checkSchema({
+  0: { in: ['params'], isString: true, notEmpty: true, errorMessage: 'File name should be a string' },
+})
 
-// Parameter validation function
+export const validateFunctionName = checkSchema({
+  functionName: { in: ['params'], isString: true, notEmpty: true, errorMessage: 'Function name should be a string' },
+})
+
+export const validateByteRange = checkSchema({
+  startByte: {
+    in: ['query'],
+    optional: true,
+    isInt: { options: { min: 0 } },
+    errorMessage: 'startByte should be a non-negative integer',
+  },
+  endByte: {
+    in: ['query'],
+    optional: true,
+    isInt: { options: { min: 0 } },
+    custom: {
+      options: (endByte, { req }) => req.query?.startByte === undefined || +endByte >= +req.query.startByte,
+      errorMessage: 'endByte should not be before startByte',
+    },
+    errorMessage: 'endByte should be a non-negative integer',
+  },
+})
+
+export const validateReadOptions = checkSchema({
+  startLine: {
+    in: ['query'],
+    optional: true,
+    isInt: { options: { min: 1 } },
+    custom: { options: (startLine, { req }) => req.query?.startByte === undefined && req.query?.endByte === undefined },
+    errorMessage: 'startLine should be a line number, starting at 1, and not combined with startByte or endByte',
+  },
+  endLine: {
+    in: ['query'],
+    optional: true,
+    isInt: { options: { min: 1 } },
+    custom: {
+      options: (endLine, { req }) => req.query?.startByte === undefined && req.query?.endByte === undefined
+        && (req.query?.startLine === undefined || +endLine >= +req.query.startLine),
+    },
+    errorMessage: 'endLine should be a line number, not before startLine, and not combined with startByte or endByte',
+  },
+  maxChars: { in: ['query'], optional: true, isInt: { options: { min: 1 } }, errorMessage: 'maxChars should be a positive integer' },
+  maxTokens: { in: ['query'], optional: true, isInt: { options: { min: 1 } }, errorMessage: 'maxTokens should be a positive integer' },
+  cursor: { in: ['query'], optional: true, isBase64: { options: { urlSafe: true } }, errorMessage: 'cursor should be the cursor of a previous page' },
+})
+
+// A batch item is `file`, `file#function`, or an object with a fileName and either a functionName or lines
+const isBatchItem = (value: unknown) => {
+  if (typeof value === 'string')
+    return value.length > 0
+  if (typeof value !== 'object' || value === null)
+    return false
+  const item = value as { [key: string]: unknown }
+  if (typeof item.fileName !== 'string' || !item.fileName)
+    return false
+  const isLine = (line: unknown): line is number | undefined => line === undefined || (Number.isInteger(line) && (line as number) >= 1)
+  const { functionName, startLine, endLine } = item
+  return (functionName === undefined || (typeof functionName === 'string' && startLine === undefined && endLine === undefined))
+    && isLine(startLine) && isLine(endLine) && (startLine === undefined || endLine === undefined || endLine >= startLine)
+}
+
+export const validateBatchRead = checkSchema({
+  items: { in: ['body'], isArray: { options: { min: 1, max: 50 } }, errorMessage: 'items should be a list of 1 to 50 items' },
+  'items.*': {
+    in: ['body'],
+    custom: { options: isBatchItem },
+    errorMessage: 'Every item should be "file", "file#function", or { fileName, functionName } or { fileName, startLine, endLine }',
+  },
+  maxChars: { in: ['body'], optional: true, isInt: { options: { min: 1 } }, errorMessage: 'maxChars should be a positive integer' },
+  maxTokens: { in: ['body'], optional: true, isInt: { options: { min: 1 } }, errorMessage: 'maxTokens should be a positive integer' },
+})
+
+export const validatePosition = checkSchema({
+  line: { in: ['query'], isInt: { options: { min: 1 } }, errorMessage: 'line should be a number, starting at 1' },
+  column: { in: ['query'], optional: true, isInt: { options: { min: 1 } }, errorMessage: 'column should be a number, starting at 1' },
+})
+
+export const validateSearch = checkSchema({
+  q: { in: ['query'], isString: true, notEmpty: true, errorMessage: 'Query parameter q is required.' },
+  mode: { in: ['query'], optional: true, isIn: { options: [['content', 'files']] }, errorMessage: 'mode should be content or files' },
+  context: { in: ['query'], optional: true, isInt: { options: { min: 0 } }, errorMessage: 'context should be a non-negative integer' },
+  offset: { in: ['query'], optional: true, isInt: { options: { min: 0 } }, errorMessage: 'offset should be a non-negative integer' },
+  limit: { in: ['query'], optional: true, isInt: { options: { min: 1 } }, errorMessage: 'limit should be a positive integer' },
+})
+
+export const validateJobOffsets = checkSchema({
+  stdoutOffset: { in: ['query'], optional: true, isInt: { options: { min: 0 } }, errorMessage: 'stdoutOffset should be a non-negative integer' },
+  stderrOffset: { in: ['query'], optional: true, isInt: { options: { min: 0 } }, errorMessage: 'stderrOffset should be a non-negative integer' },
+})
+
+export const validateFileContent = checkSchema({
+  content: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'Missing file content.' },
+})
+
+export const validatePatch = checkSchema({
+  diff: {
+    in: ['body'],
+    custom: {
+      options: (diff, { req }) => typeof diff === 'string' || (diff === undefined && Array.isArray(req.body.hunks)),
+    },
+    errorMessage: 'Either "diff" or "hunks" is required.',
+  },
+  'hunks.*.search': { in: ['body'], isString: true, errorMessage: 'Every hunk needs a search string' },
+  'hunks.*.replace': { in: ['body'], isString: true, errorMessage: 'Every hunk needs a replace string' },
+})
+
+export const validateFunctionCode = checkSchema({
+  content: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'Function content is required.' },
+  after: { in: ['body'], optional: true, isString: true, notEmpty: true, errorMessage: 'after should be a function name' },
+})
+
+export const validateCommand = checkSchema({
+  command: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'Command is required' },
+})
+
+export const validateDependencyOperation = checkSchema({
+  operation: {
+    in: ['body'],
+    isIn: { options: [['list', 'add', 'remove', 'update']] },
+    errorMessage: 'Invalid operation. Must be one of "list", "add", "remove", "update".',
+  },
+  dev: { in: ['body'], optional: true, isBoolean: { options: { strict: true } }, errorMessage: 'dev should be true or false' },
+  workspace: { in: ['body'], optional: true, isString: true, notEmpty: true, errorMessage: 'workspace should be the name or path of a workspace package' },
+})
+
+export const validateRename = checkSchema({
+  newName: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'newName is required.' },
+  name: {
+    in: ['body'],
+    optional: true,
+    isString: true,
+    custom: { options: (name, { req }) => !!name || req.body.line !== undefined },
+    errorMessage: 'Give the name of the symbol, or the fileName, line and column of one of its uses.',
+  },
+  fileName: {
+    in: ['body'],
+    custom: { options: (fileName, { req }) => typeof fileName === 'string' ? !!fileName : req.body.line === undefined },
+    errorMessage: 'fileName is required with line and column.',
+  },
+  line: { in: ['body'], optional: true, isInt: { options: { min: 1 } }, errorMessage: 'line should be a number, starting at 1' },
+  column: {
+    in: ['body'],
+    custom: { options: (column, { req }) => column === undefined ? req.body.line === undefined : Number.isInteger(column) && column >= 1 },
+    errorMessage: 'column should be a number, starting at 1, given with line',
+  },
+  dryRun: { in: ['body'], optional: true, isBoolean: { options: { strict: true } }, errorMessage: 'dryRun should be true or false' },
+})
+
+export const validateMoveFunction = checkSchema({
+  fileName: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'fileName is required.' },
+  functionName: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'functionName is required.' },
+  targetFileName: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'targetFileName is required.' },
+  dryRun: { in: ['body'], optional: true, isBoolean: { options: { strict: true } }, errorMessage: 'dryRun should be true or false' },
+})
+
+export const validatePackageName = checkSchema({
+  packageName: {
+    in: ['body'],
+    custom: { options: (packageName, { req }) => req.body.operation === 'list' || isPackageName(packageName) },
+    errorMessage: 'Package name is required and must be a valid npm package name.',
+  },
+  version: {
+    in: ['body'],
+    optional: true,
+    custom: { options: isVersion },
+    errorMessage: 'Version must be a semver version, range or dist-tag.',
+  },
+})
+
+export const validateDependencyName = checkSchema({
+  name: {
+    in: ['params'],
+    custom: { options: isPackageName },
+    errorMessage: 'name should be a valid npm package name, with the slash of a scoped name encoded as %2F',
+  },
+})
+
+export const validateProject = checkSchema({
+  id: { in: ['body'], isString: true, matches: { options: /^[\w.-]+$/ }, errorMessage: 'id should only have letters, digits, dots, dashes and underscores' },
+  root: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'root should be a directory, relative to PROJECTS_ROOT' },
+  profile: { in: ['body'], optional: true, isIn: { options: [Object.keys(PROFILES)] }, errorMessage: `profile should be one of ${Object.keys(PROFILES).join(', ')}` },
+  deny: { in: ['body'], optional: true, isArray: true, errorMessage: 'deny should be a list of gitignore-style patterns' },
+  'deny.*': { in: ['body'], isString: true, notEmpty: true, errorMessage: 'deny patterns should be non-empty strings' },
+})
+
+export const validateImportGraph = checkSchema({
+  format: { in: ['query'], optional: true, isIn: { options: [['json', 'dot']] }, errorMessage: 'format should be json or dot' },
+})
+
+// Refs are passed to git as arguments, so they may not look like options
+const isGitRef = (ref: unknown) => typeof ref === 'string' && /^[\w./~^@{}:-]+$/.test(ref) && !ref.startsWith('-')
+
+export const validateGitQuery = checkSchema({
+  from: { in: ['query'], optional: true, custom: { options: isGitRef }, errorMessage: 'from should be a git ref' },
+  to: { in: ['query'], optional: true, custom: { options: isGitRef }, errorMessage: 'to should be a git ref' },
+  ref: { in: ['query'], optional: true, custom: { options: isGitRef }, errorMessage: 'ref should be a git ref' },
+  fileName: { in: ['query'], optional: true, isString: true, notEmpty: true, errorMessage: 'fileName should be a file name' },
+  functionName: {
+    in: ['query'],
+    optional: true,
+    custom: { options: (functionName, { req }) => typeof functionName === 'string' && !!req.query?.fileName },
+    errorMessage: 'functionName needs a fileName',
+  },
+  limit: { in: ['query'], optional: true, isInt: { options: { min: 1, max: 200 } }, errorMessage: 'limit should be between 1 and 200' },
+  startLine: {
+    in: ['query'],
+    optional: true,
+    isInt: { options: { min: 1 } },
+    custom: { options: (startLine, { req }) => !!req.query?.fileName },
+    errorMessage: 'startLine should be a line number, starting at 1, with a fileName',
+  },
+  endLine: {
+    in: ['query'],
+    optional: true,
+    isInt: { options: { min: 1 } },
+    custom: { options: (endLine, { req }) => req.query?.startLine !== undefined && +endLine >= +req.query.startLine },
+    errorMessage: 'endLine should be a line number, not before startLine',
+  },
+})
+
+export const validateGitCommit = checkSchema({
+  message: { in: ['body'], isString: true, notEmpty: true, errorMessage: 'Commit message is required.' },
+  files: { in: ['body'], optional: true, isArray: true, errorMessage: 'files should be a list of file names' },
+  'files.*': { in: ['body'], isString: true, notEmpty: true, errorMessage: 'files should be a list of file names' },
+})
+
+export const validateHistoryId = checkSchema({
+  id: { in: ['params'], isInt: { options: { min: 1 } }, errorMessage: 'id should be the number of a change' },
+  since: { in: ['body'], optional: true, isBoolean: { options: { strict: true } }, errorMessage: 'since should be true or false' },
+})
+
+export const validateTestRun = checkSchema({
+  fileName: { in: ['body'], optional: true, isString: true, notEmpty: true, errorMessage: 'fileName should be a test file, or a source file to run its tests' },
+  testNamePattern: {
+    in: ['body'],
+    optional: true,
+    isString: true,
+    custom: {
+      options: (pattern: string) => {
+        try {
+          return !!new RegExp(pattern)
+        } catch (err) {
+          return false
+        }
+      },
+    },
+    errorMessage: 'testNamePattern should be a regular expression',
+  },
+  changed: { in: ['body'], optional: true, isBoolean: { options: { strict: true } }, errorMessage: 'changed should be true or false' },
+  coverage: { in: ['body'], optional: true, isBoolean: { options: { strict: true } }, errorMessage: 'coverage should be true or false' },
+})
+
+/**
+ * Passes the failures of the validators that ran before it to the error handler.
+ */
 export const validateParams: express.RequestHandler = (req, res, next) => {
   const errors = validationResult(req)
   if (!errors.isEmpty())
-    return next({
-      error: new Error('Validation failed'),
-      validationErrors: errors.array()
-    })
-
-  return
+    return next(Object.assign(new Error('Validation failed'), {
+      code: 'EVALIDATION',
+      details: errors.array({ onlyFirstError: true }).map(error => error.type === 'field'
+        ? { field: error.path, location: error.location, message: error.msg }
+        : { message: error.msg })
+    }))
+  next()
 }
 
+/**
+ * Turns errors into responses. Every error response is a JSON object with an
+ * `error` message, some carry extra fields that help fixing the request.
+ */
 export const handleErrors: express.ErrorRequestHandler = (err, req, res, next) => {
   logger.error(err)
+  if (err.code === 'EVALIDATION')
+    return res.status(400).json({ error: err.message, details: err.details })
+  if (err.type === 'entity.too.large')
+    return res.status(413).json({ error: `Request body is larger than ${err.limit} bytes` })
+  if (err.type === 'entity.parse.failed')
+    return res.status(400).json({ error: 'Request body is not valid JSON' })
   if (err.code === 'EEXIST')
     return res.status(400).json({ error: 'File already exists' })
   if (err.code === 'ENOENT')
-    return res.status(404).send({ error: 'File not found' })
+    return res.status(404).json({ error: 'File not found' })
+  if (err.code === 'ENOPROJECT')
+    return res.status(404).json({ error: err.message })
   if (err.code === 'EACCES')
-    return res.status(403).send({ error: 'Permission denied' })
+    return res.status(403).json({ error: 'Permission denied' })
+  if (err.code === 'ECONFLICT')
+    return res.status(409).json({ error: err.message, hunk: err.hunk, line: err.line, expected: err.expected, actual: err.actual })
+  if (err.code === 'EBADPATCH' || err.code === 'ERANGE' || err.code === 'EINVAL' || err.code === 'EGIT' || err.code === 'ETESTS')
+    return res.status(400).json({ error: err.message })
+  if (err.name === 'TSError')
+    return res.status(400).json({ error: `Syntax error: ${err.message}`, line: err.lineNumber, column: err.column })
+  if (err.code === 'ESANDBOX')
+    return res.status(403).json({ error: err.message, fileName: err.fileName })
+  if (err.code === 'EPOLICY')
+    return res.status(403).json({ error: err.message, command: err.command, rules: err.failures })
+  if (err.code === 'EBUSY')
+    return res.status(429).json({ error: err.message })
   if (err.code === 'ETIMEDOUT')
-    return res.status(500).send({ error: `Response timed out after ${err.timeout}ms`})
-  if ('error' in err && 'validationErrors' in err)
-    return res.status(400).json({ error: err.error.message, details: err.validationErrors })
+    return res.status(500).json({ error: `Response timed out after ${err.timeout}ms`})
   res.status(500).json({ error: 'Internal server error' })
 }
@@ -1,7 +1,104 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import ignore from 'ignore';
 import path from 'path';
 
+// Paths that are never listed or served, whatever the .gitignore files say
+const DEFAULT_DENY_LIST = [
+  '.git',
+  'node_modules',
+  '.env',
+  '.env.*',
+  '.code-plugin',
+];
+
+// Patterns denied in one project only, by project root
+const projectDenyLists = new Map<string, string[]>();
+
+/**
+ * Sets the patterns denied in a project on top of the global deny list.
+ *
+ * @param {string} root - The project root.
+ * @param {string[]} patterns - Gitignore-style patterns, an empty list removes them.
+ */
+export function setProjectDenyList(root: string, patterns: string[]) {
+  if (patterns.length)
+    projectDenyLists.set(path.resolve(root), patterns);
+  else
+    projectDenyLists.delete(path.resolve(root));
+}
+
+/**
+ * The directory the plugin keeps the state of a project in, like its undo
+ * journal. It is deny-listed, so never served, and excluded from git by
+ * createStateDirectory.
+ *
+ * @param {string} root - The project root.
+ */
+export function getStateDirectory(root: string): string {
+  return path.join(path.resolve(root), '.code-plugin');
+}
+
+// The exclude file of the git repository a directory is in, following the
+// `gitdir:` file of worktrees and submodules, undefined outside of git
+async function findGitExcludeFile(directory: string): Promise<string | undefined> {
+  for (let current = path.resolve(directory); ; current = path.dirname(current)) {
+    const dotGit = path.join(current, '.git');
+    const stat = await fs.promises.stat(dotGit).catch(() => undefined);
+    if (stat?.isDirectory())
+      return path.join(dotGit, 'info', 'exclude');
+    if (stat?.isFile()) {
+      const gitDir = (await fs.promises.readFile(dotGit, 'utf8')).match(/^gitdir: (.+)$/m)?.[1];
+      if (!gitDir)
+        return undefined;
+      const resolved = path.resolve(current, gitDir.trim());
+      // a worktree shares the exclude file of the main repository
+      const commonDir = await fs.promises.readFile(path.join(resolved, 'commondir'), 'utf8').catch(() => undefined);
+      return path.join(commonDir ? path.resolve(resolved, commonDir.trim()) : resolved, 'info', 'exclude');
+    }
+    if (current === path.dirname(current))
+      return undefined;
+  }
+}
+
+/**
+ * Creates the state directory of a project, and excludes it from git through
+ * the repository's `info/exclude` file, so the files kept there never show up
+ * in git status or in a commit.
+ *
+ * @param {string} root - The project root.
+ * @returns {Promise<string>} The state directory.
+ */
+export async function createStateDirectory(root: string): Promise<string> {
+  const directory = getStateDirectory(root);
+  await fs.promises.mkdir(directory, { recursive: true });
+  const excludeFile = await findGitExcludeFile(root);
+  if (excludeFile) {
+    const pattern = `${path.basename(directory)}/`;
+    const content = await fs.promises.readFile(excludeFile, 'utf8').catch(() => '');
+    if (!content.split('\n').some(line => line.trim() === pattern)) {
+      await fs.promises.mkdir(path.dirname(excludeFile), { recursive: true });
+      await fs.promises.appendFile(excludeFile, `${content && !content.endsWith('\n') ? '\n' : ''}${pattern}\n`);
+    }
+  }
+  return directory;
+}
+
+/**
+ * Reads the deny list: the defaults plus the gitignore-style patterns
+ * in the comma separated SANDBOX_DENY environment variable, and the
+ * patterns of the project a directory belongs to.
+ *
+ * @param {string} directory - Optional directory inside a project.
+ */
+export function getDenyList(directory?: string): string[] {
+  const configured = (process.env.SANDBOX_DENY ?? '').split(',').map(pattern => pattern.trim()).filter(Boolean);
+  const project = directory === undefined ? [] : [...projectDenyLists]
+    .filter(([root]) => !path.relative(root, path.resolve(directory)).startsWith('..'))
+    .flatMap(([, patterns]) => patterns);
+  return [...DEFAULT_DENY_LIST, ...configured, ...project];
+}
+
 export async function isDirectory(filePath: string): Promise<boolean> {
   try {
     const stat = await fs.promises.stat(filePath)
@@ -11,26 +108,45 @@ export async function isDirectory(filePath: string): Promise<boolean> {
   }
 }
 
-export async function getFileList(directory = __dirname, originalRoot = directory, ig = ignore()) {
+/**
+ * Reads the rules of the .gitignore file in a directory, if there is one.
+ * Rules are relative to that directory.
+ */
+export async function readIgnoreRules(directory: string): Promise<string[]> {
+  const gitignorePath = path.join(directory, '.gitignore');
+  if (!fs.existsSync(gitignorePath))
+    return [];
+  const gitignoreContent = await fs.promises.readFile(gitignorePath, 'utf8');
+  return gitignoreContent
+    .split(/\n|\r/)
+    .filter(line => !line.startsWith('#'))
+    .map(line => line.startsWith('/') ? line.slice(1) : line);
+}
+
+/**
+ * Lists the files under a directory, recursively, without the ignored and
+ * deny-listed ones. Symbolic links are followed when they stay inside the root,
+ * a linked directory already listed, e.g. a link to one of its ancestors, is not
+ * listed again.
+ *
+ * @param {string} directory - The directory to list.
+ * @param {string} originalRoot - The project root, the ignore rules are relative to it.
+ * @param {Ignore} ig - The ignore rules read so far.
+ * @param {Set<string>} visited - The real paths of the directories listed so far.
+ */
+export async function getFileList(directory = __dirname, originalRoot = directory, ig = ignore(), visited = new Set<string>()) {
   const fileList: string[] = [];
   const files = await fs.promises.readdir(directory);
+  visited.add(await fs.promises.realpath(directory));
 
   if (directory === originalRoot) {
-    // always ignore .git folder and node_modules/ folders
-    ig.add(['.git/**', 'node_modules/**']);
+
+    // always ignore .git folder, node_modules/ folders and the deny list
+    ig.add(['.git/**', 'node_modules/**', ...getDenyList(originalRoot)]);
 
     // Check if there's a .gitignore file in the current directory
     // If .gitignore exists, add its rules to the ignore filter
-    const gitignorePath = path.join(directory, '.gitignore');
-    if (fs.existsSync(gitignorePath)) {
-      const gitignoreContent = await fs.promises.readFile(gitignorePath, 'utf8');
-      ig.add(
-        gitignoreContent
-          .split(/\n|\r/)
-          .filter(line => !line.startsWith('#'))
-          .map(line => line.startsWith('/') ? line.slice(1) : line)
-      );
-    }
+    ig.add(await readIgnoreRules(directory));
   }
 
   for (const file of files) {
@@ -41,11 +157,22 @@ export async function getFileList(directory = __dirname, originalRoot = director
     if (ig.ignores(fullRelativePath) || ig.ignores(fullRelativePath.endsWith('/') ? fullRelativePath : fullRelativePath + '/'))
       continue;
 
+    // Skip symlinks that are broken, point outside of the root or at an ignored file
+    const isLink = (await fs.promises.lstat(fullPath)).isSymbolicLink();
+    if (isLink) {
+      const target = await fs.promises.realpath(fullPath).catch(() => undefined);
+      const targetRelativePath = target && path.relative(await fs.promises.realpath(originalRoot), target);
+      if (!targetRelativePath || targetRelativePath.startsWith('..') || ig.ignores(targetRelativePath))
+        continue;
+    }
+
     const stat = await fs.promises.stat(fullPath);
 
-    // If the file is a directory, recurse into it
+    // If the file is a directory, recurse into it, once for every real directory linked to
     if (stat.isDirectory()) {
-      fileList.push(...await getFileList(fullPath, originalRoot, ig));
+      if (isLink && visited.has(await fs.promises.realpath(fullPath)))
+        continue;
+      fileList.push(...await getFileList(fullPath, originalRoot, ig, visited));
     } else if (stat.isFile()) {
       if (fullPath.endsWith('.gitignore')) {
         const gitignoreContent = fs.readFileSync(fullPath, 'utf8')
@@ -61,3 +188,177 @@ export async function getFileList(directory = __dirname, originalRoot = director
 
   return fileList;
 }
+
+/**
+ * Writes a file by writing a temporary sibling first and renaming it over the
+ * target, so readers never observe a partially written file.
+ */
+export async function writeFileAtomic(filePath: string, content: string) {
+  const tmpPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`);
+  try {
+    await fs.promises.writeFile(tmpPath, content);
+    await fs.promises.rename(tmpPath, filePath);
+  } catch (err) {
+    await fs.promises.rm(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+// Rough size of a token, used to turn a maxTokens budget into characters
+export const CHARS_PER_TOKEN = 4;
+
+export interface ReadOptions {
+  startByte?: number
+  endByte?: number
+  startLine?: number
+  endLine?: number
+  maxChars?: number
+  maxTokens?: number
+  cursor?: string
+}
+
+export interface FileSlice {
+  content: string
+  startByte: number
+  endByte: number
+  startLine: number
+  endLine: number
+  totalLines: number
+  totalBytes: number
+  hash: string
+  truncated: boolean
+  cursor?: string
+}
+
+// A cursor remembers where the next page starts and ends, and which content it belongs to
+type Cursor = { offset: number, end: number, hash: string };
+
+const encodeCursor = (cursor: Cursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(decoded.offset) && Number.isInteger(decoded.end) && typeof decoded.hash === 'string')
+      return decoded;
+  } catch (err) {
+    // reported below
+  }
+  throw Object.assign(new Error('Invalid cursor'), { code: 'EINVAL' });
+}
+
+const outOfRange = (message: string) => Object.assign(new Error(message), { code: 'ERANGE' });
+
+/**
+ * Converts the character offsets of a content, like those of the parsers and of
+ * the TypeScript language service, to the UTF-8 byte offsets the API reports.
+ * The offsets are computed once, so converting many of them stays cheap.
+ *
+ * @param {string} content - The content.
+ * @returns {Function} Converts a character offset to a byte offset.
+ */
+export function byteOffsetsOf(content: string): (offset: number) => number {
+  if (Buffer.byteLength(content) === content.length)
+    return offset => offset;
+  const offsets = new Uint32Array(content.length + 1);
+  for (let i = 0; i < content.length; i++) {
+    const code = content.charCodeAt(i);
+    const isPair = code >= 0xd800 && code < 0xdc00 && /[\udc00-\udfff]/.test(content[i + 1] ?? '');
+    // a surrogate pair takes four bytes, all counted on its first half
+    const bytes = code < 0x80 ? 1 : code < 0x800 ? 2 : isPair ? 4 : 3;
+    offsets[i + 1] = offsets[i] + bytes;
+    if (isPair)
+      offsets[++i + 1] = offsets[i];
+  }
+  return offset => offsets[Math.max(0, Math.min(offset, content.length))];
+}
+
+/**
+ * Converts a UTF-8 byte offset of a content, like the ones the API reports, back
+ * to a character offset, e.g. to hand it to the TypeScript language service.
+ *
+ * @param {string} content - The content.
+ * @param {number} offset - The byte offset, at the start of a character.
+ */
+export const toCharOffset = (content: string, offset: number) => Buffer.from(content).toString('utf8', 0, offset).length;
+
+// Moves a byte offset back to the start of the character it falls in
+function toCharBoundary(buffer: Buffer, offset: number): number {
+  while (offset > 0 && offset < buffer.length && (buffer[offset] & 0xc0) === 0x80)
+    offset--;
+  return offset;
+}
+
+/**
+ * Cuts a page out of a file's content. The page is chosen with UTF-8 byte offsets
+ * (`startByte`, `endByte`), with 1-based inclusive lines, or with a cursor from a
+ * previous page; the offsets in the result are byte offsets too. A `maxChars` or
+ * `maxTokens` budget ends the page at the last whole line that fits and returns
+ * a cursor for the rest; the cursor is refused once the content changed.
+ *
+ * @param {string} fileContent - The content of the file.
+ * @param {ReadOptions} options - Which part to read.
+ */
+export function sliceFileContent(fileContent: string, options: ReadOptions): FileSlice {
+  const hash = crypto.createHash('sha256').update(fileContent).digest('hex');
+  const buffer = Buffer.from(fileContent, 'utf8');
+  const lineStarts = [0];
+  for (let i = buffer.indexOf(0x0a); i >= 0; i = buffer.indexOf(0x0a, i + 1))
+    lineStarts.push(i + 1);
+  // a trailing newline does not start another line
+  const totalLines = lineStarts[lineStarts.length - 1] === buffer.length ? lineStarts.length - 1 : lineStarts.length;
+  const lineAt = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset)
+      line++;
+    return line + 1;
+  };
+
+  let start: number, end: number;
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (cursor.hash !== hash.slice(0, 16))
+      throw Object.assign(new Error('The file changed since the cursor was issued, read it again from the start'), { code: 'ECONFLICT' });
+    ({ offset: start, end } = cursor);
+  } else if (options.startLine !== undefined || options.endLine !== undefined) {
+    const startLine = options.startLine ?? 1;
+    if (startLine > Math.max(totalLines, 1))
+      throw outOfRange(`startLine is past the end of the file (${totalLines} lines)`);
+    start = lineStarts[startLine - 1];
+    end = options.endLine !== undefined && options.endLine < lineStarts.length ? lineStarts[options.endLine] : buffer.length;
+  } else {
+    if ((options.startByte ?? 0) > buffer.length)
+      throw outOfRange(`startByte is past the end of the file (${buffer.length} bytes)`);
+    start = toCharBoundary(buffer, options.startByte ?? 0);
+    end = toCharBoundary(buffer, Math.min(options.endByte ?? buffer.length, buffer.length));
+  }
+
+  // the budget counts characters, the page still ends on a byte offset
+  const budget = options.maxChars ?? (options.maxTokens ? options.maxTokens * CHARS_PER_TOKEN : undefined);
+  const text = buffer.toString('utf8', start, end);
+  const truncated = budget !== undefined && text.length > budget;
+  let pageText = text;
+  if (truncated) {
+    pageText = text.slice(0, budget);
+    // end on a whole line when at least one fits
+    const lastNewline = pageText.lastIndexOf('\n');
+    if (lastNewline >= 0)
+      pageText = pageText.slice(0, lastNewline + 1);
+    // never split a surrogate pair, but take at least one whole character so the cursor moves on
+    else if (/[\ud800-\udbff]$/.test(pageText))
+      pageText = pageText.length > 1 ? pageText.slice(0, -1) : text.slice(0, 2);
+  }
+  const pageEnd = start + Buffer.byteLength(pageText);
+
+  return {
+    content: pageText,
+    startByte: start,
+    endByte: pageEnd,
+    startLine: lineAt(start),
+    endLine: lineAt(Math.max(start, pageEnd - 1)),
+    totalLines,
+    totalBytes: buffer.length,
+    hash,
+    truncated,
+    ...(truncated ? { cursor: encodeCursor({ offset: pageEnd, end, hash: hash.slice(0, 16) }) } : {}),
+  };
+}
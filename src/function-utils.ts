@@ -1,15 +1,23 @@
-import { AST, AST_NODE_TYPES, parse } from '@typescript-eslint/typescript-estree';
+import { AST } from '@typescript-eslint/typescript-estree';
 import fs from 'fs';
-import path from 'path';
-import { getFileList } from './file-utils';
+import { writeFileAtomic } from './file-utils';
+import { parseFile } from './parsers';
+import { getIndexedSymbolList } from './symbol-index';
+import { findSymbolsInFile, SymbolKind, SymbolRef } from './symbol-utils';
 
 interface FileRef {
   fileName: string
   functions?: FunctionRef[]
+  error?: string
 }
 
 interface FunctionRef {
   functionName: string,
+  qualifiedName: string,
+  kind: SymbolKind,
+  exported: boolean,
+  line: number,
+  column: number,
   startByte: number,
   endByte: number
 }
@@ -23,80 +31,26 @@ export function minimize(body: string): string {
   return bodyLines[0] + '\n// ...\n' + bodyLines[bodyLines.length - 1];
 }
 
-function findFunctionsInFile(ast: AST<{range:true,loc:true}>) {
-  // Initialize an empty array to hold the functions
-  const functions: {name: string, start: number, end: number}[] = [];
+const isFunctionSymbol = (symbol: SymbolRef) => symbol.kind === 'function' || symbol.kind === 'method'
 
-  // Traverse the AST and find all functions
-  for (const functionNode of ast.body) {
-
-    if (AST_NODE_TYPES.FunctionDeclaration === functionNode.type)
-      functions.push({
-        name: functionNode.id?.name || 'anonymous',
-        start: functionNode.range[0],
-        end: functionNode.range[1],
-      });
-
-    if (AST_NODE_TYPES.VariableDeclaration === functionNode.type)
-      for (const declarator of functionNode.declarations)
-        if ((AST_NODE_TYPES.FunctionExpression === declarator.init?.type ||
-            AST_NODE_TYPES.ArrowFunctionExpression === declarator.init?.type) &&
-            AST_NODE_TYPES.Identifier === declarator.id.type)
-          functions.push({
-            name: declarator.id.name,
-            start: functionNode.range[0],
-            end: functionNode.range[1],
-          });
-
-    if (AST_NODE_TYPES.ClassDeclaration === functionNode.type)
-      for (const method of functionNode.body.body)
-        if (method.type === AST_NODE_TYPES.MethodDefinition && AST_NODE_TYPES.Identifier === method.key.type)
-          functions.push({
-            name: method.key.name,
-            start: method.range[0],
-            end: method.range[1],
-          });
-
-    if (AST_NODE_TYPES.ExportNamedDeclaration === functionNode.type)
-      if (functionNode.declaration && functionNode.declaration.type === 'FunctionDeclaration')
-        functions.push({
-          name: functionNode.declaration.id?.name || 'anonymous',
-          start: functionNode.range[0],
-          end: functionNode.range[1],
-        });
-  }
-  return functions;
+function findFunctionsInFile(ast: AST<{range:true,loc:true}>, content: string) {
+  return findSymbolsInFile(ast, content).filter(isFunctionSymbol)
 }
 
 export async function getFunctionList(directory: string = __dirname, fileName?: string): Promise<FileRef[]> {
-  const functionList: FileRef[] = [];
-  const files = await getFileList(directory)
-
-  const actualFileName = fileName ? path.join(directory, fileName) : undefined
-  for (const file of files) {
-    const fh = await fs.promises.open(file, 'r')
-    const stat = await fh.stat()
-    if (
-       (actualFileName && actualFileName !== file) // when filename is specified, only use that file
-    || (!file.endsWith('.ts') && !file.endsWith('.js')) // must be a js/ts file
-    || (!stat.isFile()) // must be a file
-    )
-      continue
-    const content = await fh.readFile('utf8')
-    fh.close()
-    const ast = parse(content, { range: true, loc: true })
-    functionList.push({
-      fileName: file,
-      functions: findFunctionsInFile(ast)
-        .map(func => ({
-          functionName: func.name,
-          startByte: func.start,
-          endByte: func.end
+  return (await getIndexedSymbolList(directory, fileName))
+    .map(({ fileName, symbols, error }) => ({
+      fileName,
+      ...(error ? { error } : {}),
+      functions: symbols
+        .filter(isFunctionSymbol)
+        .map(({ name, startByte, endByte, ...symbol }) => ({
+          functionName: name,
+          ...symbol,
+          startByte,
+          endByte
         }))
-      })
-  }
-
-  return functionList
+    }))
 }
 
 export type FunctionData = {
@@ -106,33 +60,90 @@ export type FunctionData = {
     minimal: string,
     full: string
   },
+  // UTF-8 byte offsets of the function in the file
   startByte: number,
   endByte: number
 }
 
-async function extractFunctionRange(ast: AST<{loc:true,range:true}>, functionName: string): Promise<{start:number,end:number}|undefined> {
-  const functions = findFunctionsInFile(ast);
-  const func = functions.find(func => func.name === functionName);
+// The UTF-8 byte range of a function
+async function extractFunctionRange(ast: AST<{loc:true,range:true}>, fileContent: string, functionName: string): Promise<{start:number,end:number}|undefined> {
+  // a qualified name like `Class.method` wins over a plain name shared by several functions
+  const functions = findFunctionsInFile(ast, fileContent);
+  const func = functions.find(func => func.qualifiedName === functionName)
+    ?? functions.find(func => func.name === functionName);
   if (func) {
-    return { start: func.start, end: func.end };
+    return { start: func.startByte, end: func.endByte };
+  }
+}
+
+function toFunctionData(fileName: string, functionName: string, fileContent: string, range: {start:number,end:number}): FunctionData {
+  const functionContent = Buffer.from(fileContent).toString('utf8', range.start, range.end)
+  return {
+    fileName,
+    functionName,
+    content: {
+      minimal: minimize(functionContent),
+      full: functionContent
+    },
+    startByte: range.start,
+    endByte: range.end
   }
 }
 
 export async function getFunctionData(functionName:string, fileName: string): Promise<FunctionData | undefined> {
   const fileContent = await fs.promises.readFile(fileName, 'utf-8')
-  const ast = parse(fileContent, { loc: true, range: true })
-  const range = await extractFunctionRange(ast, functionName)
-  if (range) {
-    const functionContent = fileContent.substring(range.start, range.end)
-    return {
-      fileName,
-      functionName,
-      content: {
-        minimal: minimize(functionContent),
-        full: functionContent
-      },
-      startByte: range.start,
-      endByte: range.end
-    }
+  const ast = parseFile(fileContent, fileName)
+  const range = await extractFunctionRange(ast, fileContent, functionName)
+  if (range)
+    return toFunctionData(fileName, functionName, fileContent, range)
+}
+
+const conflict = (message: string) => Object.assign(new Error(message), { code: 'ECONFLICT' })
+
+/**
+ * Replaces the named function with new code, or inserts new code as the named
+ * function right after an existing sibling function when `after` is given.
+ * The resulting file is parsed before it is written, so code with syntax errors
+ * never reaches the disk.
+ *
+ * @param {string} functionName - The function to replace or to insert.
+ * @param {string} fileName - The file containing the function.
+ * @param {string} code - The full declaration of the function.
+ * @param {string} after - The sibling function to insert after.
+ * @returns {Promise<FunctionData|undefined>} The written function, or undefined when the target was not found.
+ */
+export async function writeFunctionData(functionName: string, fileName: string, code: string, after?: string): Promise<FunctionData | undefined> {
+  const fileContent = await fs.promises.readFile(fileName, 'utf-8')
+  const ast = parseFile(fileContent, fileName)
+  // the ranges are byte offsets, so the file is cut as bytes
+  const buffer = Buffer.from(fileContent)
+  const cut = (start: number, end?: number) => buffer.toString('utf8', start, end)
+  code = code.replace(/\s+$/, '')
+
+  let newContent: string
+  if (after) {
+    if (await extractFunctionRange(ast, fileContent, functionName))
+      throw conflict(`Function ${functionName} already exists`)
+    const sibling = await extractFunctionRange(ast, fileContent, after)
+    if (!sibling)
+      return
+    // indent the new function like its sibling, e.g. for class methods
+    const indent = cut(buffer.lastIndexOf(0x0a, sibling.start) + 1, sibling.start).match(/^\s*/)?.[0] ?? ''
+    const indented = /^\s/.test(code) ? code : code.split('\n').map(line => line ? indent + line : line).join('\n')
+    newContent = cut(0, sibling.end) + '\n\n' + indented + cut(sibling.end)
+  } else {
+    const range = await extractFunctionRange(ast, fileContent, functionName)
+    if (!range)
+      return
+    newContent = cut(0, range.start) + code + cut(range.end)
   }
+
+  // throws a TSError pointing at the problem when the new code does not parse
+  const newAst = parseFile(newContent, fileName)
+  const range = await extractFunctionRange(newAst, newContent, functionName)
+  if (!range)
+    throw conflict(`The new code does not declare a function named ${functionName}`)
+
+  await writeFileAtomic(fileName, newContent)
+  return toFunctionData(fileName, functionName, newContent, range)
 }
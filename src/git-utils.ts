@@ -0,0 +1,309 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import { getDenyList } from './file-utils';
+
+const MAX_GIT_OUTPUT = 10 * 1024 * 1024
+
+// Separators for --format output, they never appear in commit metadata
+const FIELD = '\x1f'
+const RECORD = '\x1e'
+
+export type FileStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'unmerged' | 'untracked' | 'type-changed'
+
+export interface StatusEntry {
+  fileName: string
+  originalFileName?: string
+  staged: FileStatus | null
+  unstaged: FileStatus | null
+}
+
+export interface GitStatus {
+  branch: string | null
+  upstream: string | null
+  ahead: number
+  behind: number
+  files: StatusEntry[]
+}
+
+export interface DiffOptions {
+  from?: string
+  to?: string
+  staged?: boolean
+  fileName?: string
+}
+
+export interface LogOptions {
+  ref?: string
+  fileName?: string
+  startLine?: number
+  endLine?: number
+  limit?: number
+}
+
+export interface CommitInfo {
+  commit: string
+  author: string
+  email: string
+  date: string
+  subject: string
+}
+
+export interface BlameLine {
+  line: number
+  commit: string
+  author: string
+  date: string
+  summary: string
+  content: string
+}
+
+const STATUS_CODES: Record<string, FileStatus> = {
+  M: 'modified',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  U: 'unmerged',
+  T: 'type-changed',
+  '?': 'untracked',
+}
+
+const gitError = (message: string) => Object.assign(new Error(message), { code: 'EGIT' })
+
+/**
+ * Runs git with the given arguments in the project, without a shell.
+ * Rejects with an EGIT error carrying git's own message when it fails.
+ *
+ * @param {string} root - The project root, git finds the repository from there.
+ * @param {string[]} args - The git arguments.
+ */
+function git(root: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', ['-c', 'core.quotePath=false', ...args], { cwd: root, maxBuffer: MAX_GIT_OUTPUT }, (err, stdout, stderr) => {
+      if (err)
+        return reject((err as NodeJS.ErrnoException).code === 'ENOENT'
+          ? gitError('git is not installed')
+          : gitError(stderr.trim() || err.message))
+      resolve(stdout)
+    })
+  })
+}
+
+// Pathspecs that keep deny-listed files, like .env, out of status, diff and commits.
+// A pattern matches a directory too, so the files inside it are excluded as well.
+const denyPathspecs = (root: string) => getDenyList(root).flatMap(pattern => {
+  const glob = pattern.startsWith('/') ? pattern.slice(1) : `**/${pattern}`
+  return [`:(exclude,glob)${glob}`, `:(exclude,glob)${glob}/**`]
+})
+
+const splitNames = (output: string) => output.split('\0').filter(Boolean)
+
+// Refs come from requests, one starting with a dash would be read as an option
+function checkRef(ref: string) {
+  if (ref.startsWith('-'))
+    throw gitError(`Invalid ref ${ref}`)
+  return ref
+}
+
+/**
+ * Lists the changed and untracked files under the project root,
+ * with the current branch and how far it is from its upstream.
+ *
+ * @param {string} root - The project root.
+ */
+export async function getStatus(root: string): Promise<GitStatus> {
+  const prefix = (await git(root, ['rev-parse', '--show-prefix'])).trim()
+  const output = await git(root, ['status', '--porcelain=v1', '--branch', '-z', '--', '.', ...denyPathspecs(root)])
+  const entries = output.split('\0')
+  const status: GitStatus = { branch: null, upstream: null, ahead: 0, behind: 0, files: [] }
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (!entry)
+      continue
+    if (entry.startsWith('## ')) {
+      // e.g. "## main...origin/main [ahead 1, behind 2]" or "## No commits yet on main"
+      const match = /^## (?:No commits yet on |Initial commit on )?(.+?)(?:\.\.\.(\S+))?(?: \[(.*)\])?$/.exec(entry)
+      status.branch = match?.[1] === 'HEAD (no branch)' ? null : match?.[1] ?? null
+      status.upstream = match?.[2] ?? null
+      status.ahead = +(/ahead (\d+)/.exec(match?.[3] ?? '')?.[1] ?? 0)
+      status.behind = +(/behind (\d+)/.exec(match?.[3] ?? '')?.[1] ?? 0)
+      continue
+    }
+    const [x, y] = [entry[0], entry[1]]
+    const file: StatusEntry = {
+      fileName: entry.slice(3).slice(prefix.length),
+      staged: x === '?' ? null : STATUS_CODES[x] ?? null,
+      unstaged: STATUS_CODES[y] ?? null,
+    }
+    // renames and copies are followed by the original path
+    if (x === 'R' || x === 'C')
+      file.originalFileName = entries[++i].slice(prefix.length)
+    status.files.push(file)
+  }
+  return status
+}
+
+/**
+ * Diffs the working tree against the index, the index against HEAD with `staged`,
+ * or two refs with `from` and `to`, optionally for a single file.
+ *
+ * @param {string} root - The project root.
+ * @param {DiffOptions} options - What to compare.
+ * @returns The unified diff and the number of changed lines per file.
+ */
+export async function getDiff(root: string, options: DiffOptions = {}) {
+  const args = [
+    ...(options.staged ? ['--cached'] : []),
+    ...[options.from, options.to].filter((ref): ref is string => !!ref).map(checkRef),
+    '--',
+    options.fileName ?? '.',
+    ...denyPathspecs(root),
+  ]
+  const [diff, numstat] = await Promise.all([
+    git(root, ['diff', '--relative', '--no-color', '--no-ext-diff', ...args]),
+    git(root, ['diff', '--relative', '--numstat', '-z', ...args]),
+  ])
+
+  const files = []
+  const fields = numstat.split('\0')
+  for (let i = 0; i < fields.length; i++) {
+    if (!fields[i])
+      continue
+    const [additions, deletions, fileName] = fields[i].split('\t')
+    const file = {
+      fileName: fileName || fields[i + 2],
+      // renames list the old and new path in the next two fields
+      ...(fileName ? {} : { originalFileName: fields[i + 1] }),
+      // binary files have no line counts
+      additions: additions === '-' ? null : +additions,
+      deletions: deletions === '-' ? null : +deletions,
+    }
+    if (!fileName)
+      i += 2
+    files.push(file)
+  }
+  return { files, diff }
+}
+
+/**
+ * Lists the commits of a ref, newest first, optionally only those that
+ * touched a file or a range of lines in it.
+ *
+ * @param {string} root - The project root.
+ * @param {LogOptions} options - The ref, file, line range and number of commits.
+ */
+export async function getLog(root: string, options: LogOptions = {}): Promise<CommitInfo[]> {
+  const { fileName, startLine, endLine, limit = 20 } = options
+  const args = ['log', `--format=${['%H', '%an', '%ae', '%aI', '%s'].join(FIELD)}${RECORD}`, `--max-count=${limit}`]
+  if (fileName && startLine)
+    // line ranges are followed through the history of the file, --no-patch leaves out the diffs
+    args.push(`-L${startLine},${endLine ?? startLine}:${fileName}`, '--no-patch')
+  if (options.ref)
+    args.push(checkRef(options.ref))
+  if (fileName && !startLine)
+    args.push('--follow', '--', fileName)
+
+  const output = await git(root, args)
+  return output.split(RECORD)
+    .map(record => record.trim())
+    .filter(Boolean)
+    .map(record => {
+      const [commit, author, email, date, subject] = record.split(FIELD)
+      return { commit, author, email, date, subject }
+    })
+}
+
+/**
+ * Converts a UTF-8 byte range of a file to the 1-based lines it spans.
+ *
+ * @param {string} filePath - The file.
+ * @param {number} startByte - The byte offset of the start of the range.
+ * @param {number} endByte - The byte offset after the end of the range, the end of the file by default.
+ */
+export async function byteRangeToLines(filePath: string, startByte: number, endByte?: number) {
+  const buffer = await fs.promises.readFile(filePath)
+  endByte = Math.min(endByte ?? buffer.length, buffer.length)
+  // one line, plus one for every newline before the offset
+  const lineAt = (offset: number) => {
+    let line = 1
+    for (let i = buffer.indexOf(0x0a); i >= 0 && i < offset; i = buffer.indexOf(0x0a, i + 1))
+      line++
+    return line
+  }
+  return { startLine: lineAt(startByte), endLine: lineAt(Math.max(startByte, endByte - 1)) }
+}
+
+/**
+ * Tells which commit last changed each line of a file, optionally for a range of lines.
+ *
+ * @param {string} root - The project root.
+ * @param {string} fileName - The file, relative to the root.
+ * @param {number} startLine - The first line, starting at 1.
+ * @param {number} endLine - The last line, included.
+ */
+export async function getBlame(root: string, fileName: string, startLine?: number, endLine?: number): Promise<BlameLine[]> {
+  const range = startLine ? [`-L${startLine},${endLine ?? ''}`] : []
+  const output = await git(root, ['blame', '--porcelain', ...range, '--', fileName])
+
+  // commit details are only given the first time a commit appears
+  const commits = new Map<string, { author: string, date: string, summary: string }>()
+  const lines: BlameLine[] = []
+  let current: { commit: string, line: number } | undefined
+  let details: { [key: string]: string } = {}
+
+  for (const row of output.split('\n')) {
+    if (row.startsWith('\t') && current) {
+      const commit = commits.get(current.commit) ?? {
+        author: details['author'] ?? '',
+        date: details['author-time'] ? new Date(+details['author-time'] * 1000).toISOString() : '',
+        summary: details['summary'] ?? '',
+      }
+      commits.set(current.commit, commit)
+      lines.push({ line: current.line, commit: current.commit, ...commit, content: row.slice(1) })
+      current = undefined
+      details = {}
+      continue
+    }
+    const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(row)
+    if (header) {
+      current = { commit: header[1], line: +header[2] }
+      continue
+    }
+    const space = row.indexOf(' ')
+    if (space > 0)
+      details[row.slice(0, space)] = row.slice(space + 1)
+  }
+  return lines
+}
+
+/**
+ * Commits the changes under the project root, or only the given files.
+ * When the commit fails, e.g. in a pre-commit hook, the files it staged are
+ * unstaged again.
+ *
+ * @param {string} root - The project root.
+ * @param {string} message - The commit message.
+ * @param {string[]} fileNames - The files to commit, relative to the root, all changes when omitted. Deny-listed files are left out.
+ * @returns The new commit and the files it changed.
+ */
+export async function commit(root: string, message: string, fileNames?: string[]) {
+  // the given names are taken literally, so `.env*` does not match .env, and deny-listed files are never committed
+  const pathspecs = [...(fileNames?.length ? fileNames.map(fileName => `:(literal)${fileName}`) : ['.']), ...denyPathspecs(root)]
+  const stagedBefore = new Set(splitNames(await git(root, ['diff', '--cached', '--name-only', '--relative', '-z'])))
+  await git(root, ['add', '--all', '--', ...pathspecs])
+  const staged = splitNames(await git(root, ['diff', '--cached', '--name-only', '--relative', '-z', '--', ...pathspecs]))
+  if (!staged.length)
+    throw gitError('Nothing to commit')
+
+  try {
+    await git(root, ['commit', '--quiet', `--message=${message}`, '--', ...pathspecs])
+  } catch (err) {
+    const added = staged.filter(fileName => !stagedBefore.has(fileName))
+    if (added.length)
+      await git(root, ['reset', '--quiet', '--', ...added.map(fileName => `:(literal)${fileName}`)]).catch(() => undefined)
+    throw err
+  }
+  const [info] = await getLog(root, { limit: 1 })
+  return { ...info, files: staged }
+}
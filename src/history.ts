@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import { createStateDirectory, getStateDirectory, writeFileAtomic } from './file-utils';
+
+// Where the journal lives, in the state directory of the project, one JSON entry per line
+const journalPath = (root: string) => path.join(getStateDirectory(root), 'history.jsonl')
+
+// Oldest entries are dropped beyond either limit, every entry holds two copies of a file
+const MAX_HISTORY_ENTRIES = +(process.env.MAX_HISTORY_ENTRIES ?? 200)
+const MAX_HISTORY_BYTES = +(process.env.MAX_HISTORY_BYTES ?? 20 * 1024 * 1024)
+
+/**
+ * A change made to a file through the plugin. `before` is null when the
+ * change created the file, `after` is null when it deleted it.
+ */
+export interface HistoryEntry {
+  id: number
+  timestamp: string
+  route: string
+  fileName: string
+  before: string | null
+  after: string | null
+  // the entry this change reverted, if it is a revert
+  revertOf?: number
+}
+
+export type HistorySummary = Omit<HistoryEntry, 'before' | 'after'> & {
+  beforeBytes: number | null
+  afterBytes: number | null
+}
+
+// Writes to the journal of a root are serialized, so ids stay unique
+const queues = new Map<string, Promise<unknown>>()
+
+function serialize<T>(root: string, task: () => Promise<T>): Promise<T> {
+  const result = (queues.get(root) ?? Promise.resolve()).then(task)
+  queues.set(root, result.catch(() => undefined))
+  return result
+}
+
+const conflict = (message: string) => Object.assign(new Error(message), { code: 'ECONFLICT' })
+
+async function readJournal(root: string): Promise<HistoryEntry[]> {
+  try {
+    const content = await fs.promises.readFile(journalPath(root), 'utf8')
+    return content.split('\n').filter(Boolean).map(line => JSON.parse(line))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT')
+      return []
+    throw err
+  }
+}
+
+async function appendEntries(root: string, entries: Omit<HistoryEntry, 'id' | 'timestamp'>[]): Promise<HistoryEntry[]> {
+  const journal = await readJournal(root)
+  let id = journal.length ? journal[journal.length - 1].id : 0
+  const timestamp = new Date().toISOString()
+  const added = entries.map(entry => ({ id: ++id, timestamp, ...entry }))
+
+  const filePath = journalPath(root)
+  await createStateDirectory(root)
+  const lines = [...journal, ...added].map(entry => JSON.stringify(entry) + '\n')
+  let kept = lines.slice(-MAX_HISTORY_ENTRIES)
+  let bytes = kept.reduce((total, line) => total + Buffer.byteLength(line), 0)
+  // the entries just added are kept whatever their size
+  while (kept.length > added.length && bytes > MAX_HISTORY_BYTES) {
+    bytes -= Buffer.byteLength(kept[0])
+    kept = kept.slice(1)
+  }
+  if (kept.length < lines.length)
+    await writeFileAtomic(filePath, kept.join(''))
+  else
+    await fs.promises.appendFile(filePath, added.map(entry => JSON.stringify(entry) + '\n').join(''))
+  return added
+}
+
+/**
+ * Reads a file for the journal, null when it does not exist.
+ *
+ * @param {string} filePath - The file.
+ */
+export async function readForHistory(filePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT')
+      return null
+    throw err
+  }
+}
+
+/**
+ * Records a change made to a file in the journal of the project.
+ *
+ * @param {string} root - The project root.
+ * @param {string} route - The route that made the change, e.g. PATCH /files/*.
+ * @param {string} fileName - The file, relative to the root.
+ * @param {string|null} before - The content before the change, null when the file was created.
+ * @param {string|null} after - The content after the change, null when the file was deleted.
+ */
+export async function recordChange(root: string, route: string, fileName: string, before: string | null, after: string | null): Promise<HistoryEntry> {
+  const [entry] = await serialize(root, () => appendEntries(root, [{ route, fileName, before, after }]))
+  return entry
+}
+
+const summarize = ({ before, after, ...entry }: HistoryEntry): HistorySummary => ({
+  ...entry,
+  beforeBytes: before === null ? null : Buffer.byteLength(before),
+  afterBytes: after === null ? null : Buffer.byteLength(after),
+})
+
+/**
+ * Lists the journal, newest change first, without the file contents.
+ *
+ * @param {string} root - The project root.
+ * @param {string} fileName - Only list the changes of this file.
+ */
+export async function listHistory(root: string, fileName?: string): Promise<HistorySummary[]> {
+  return (await readJournal(root))
+    .filter(entry => !fileName || entry.fileName === fileName)
+    .reverse()
+    .map(summarize)
+}
+
+/**
+ * Reads one entry of the journal, with the file contents.
+ *
+ * @param {string} root - The project root.
+ * @param {number} id - The id of the entry.
+ */
+export async function getHistoryEntry(root: string, id: number): Promise<HistoryEntry | undefined> {
+  return (await readJournal(root)).find(entry => entry.id === id)
+}
+
+/**
+ * Rolls back one change, or with `since` every change from that one on, newest first.
+ * A file that changed after the changes being reverted, outside of the plugin too,
+ * rejects the whole revert with a conflict so no edit is lost. The revert is
+ * itself recorded in the journal, so it can be reverted too.
+ *
+ * @param {string} root - The project root.
+ * @param {number} id - The id of the change to revert.
+ * @param {boolean} since - Whether to revert every later change too.
+ * @returns {Promise<HistorySummary[]|undefined>} The entries recording the revert, undefined when there is no such change.
+ */
+export function revertHistory(root: string, id: number, since = false): Promise<HistorySummary[] | undefined> {
+  return serialize(root, async () => {
+    const journal = await readJournal(root)
+    const reverted = journal.filter(entry => since ? entry.id >= id : entry.id === id)
+    if (!reverted.some(entry => entry.id === id))
+      return
+
+    // per file, the content must still be the last recorded one, and goes back to the first
+    const files = new Map<string, { first: HistoryEntry, last: HistoryEntry }>()
+    for (const entry of reverted)
+      files.set(entry.fileName, { first: files.get(entry.fileName)?.first ?? entry, last: entry })
+
+    const changes = []
+    for (const [fileName, { first, last }] of files) {
+      const filePath = path.join(root, fileName)
+      const current = await readForHistory(filePath)
+      if (current !== last.after)
+        throw conflict(`${fileName} changed after change ${last.id}, revert it by hand or revert the later changes first`)
+      changes.push({ fileName, filePath, current, restored: first.before, revertOf: first.id })
+    }
+
+    for (const { filePath, restored } of changes) {
+      if (restored === null)
+        await fs.promises.rm(filePath, { force: true })
+      else {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+        await writeFileAtomic(filePath, restored)
+      }
+    }
+    const entries = await appendEntries(root, changes.map(({ fileName, current, restored, revertOf }) => ({
+      route: `POST /history/${id}/revert`,
+      fileName,
+      before: current,
+      after: restored,
+      revertOf,
+    })))
+    return entries.map(summarize)
+  })
+}
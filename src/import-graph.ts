@@ -0,0 +1,284 @@
+import { AST_NODE_TYPES, simpleTraverse, TSESTree } from '@typescript-eslint/typescript-estree';
+import fs from 'fs';
+import { builtinModules } from 'module';
+import path from 'path';
+import { getFileList } from './file-utils';
+import { describeParseError, getParser, parseFile } from './parsers';
+
+export type ImportKind = 'import' | 'export' | 'require' | 'dynamic'
+
+export interface ImportRef {
+  specifier: string
+  line: number
+  kind: ImportKind
+  // erased when compiled, e.g. `import type { X } from './x'`
+  typeOnly: boolean
+}
+
+export interface ImportEdge {
+  from: string
+  to: string
+  typeOnly: boolean
+  // both ends are part of the same import cycle
+  cyclic: boolean
+}
+
+export interface ImportGraph {
+  files: string[]
+  edges: ImportEdge[]
+  // files that import each other at runtime, directly or through other files
+  cycles: string[][]
+  // relative imports that do not point at a file of the project
+  unresolved: { fileName: string, specifier: string, line: number }[]
+  // files that could not be parsed, their imports are missing from the graph
+  errors: { fileName: string, error: string }[]
+}
+
+export interface PackageImport {
+  fileName: string
+  specifier: string
+  line: number
+  kind: ImportKind
+  typeOnly: boolean
+}
+
+// Imports only change when the file does, they are parsed again when the modification time changes
+const cache = new Map<string, { mtimeMs: number, imports: ImportRef[] }>()
+
+const stringValue = (node: TSESTree.Node | null | undefined) =>
+  AST_NODE_TYPES.Literal === node?.type && typeof node.value === 'string' ? node.value : undefined
+
+/**
+ * Finds the import, export from, require() and import() statements of a file
+ * that name their module with a string.
+ *
+ * @param {string} content - The content of the file.
+ * @param {string} fileName - The file name, its extension picks the parser.
+ */
+export function findImports(content: string, fileName: string): ImportRef[] {
+  const imports: ImportRef[] = []
+  const add = (source: TSESTree.Node | null | undefined, node: TSESTree.Node, kind: ImportKind, typeOnly = false) => {
+    const specifier = stringValue(source)
+    if (specifier !== undefined)
+      imports.push({ specifier, line: node.loc.start.line, kind, typeOnly })
+  }
+
+  simpleTraverse(parseFile(content, fileName), {
+    enter: node => {
+      switch (node.type) {
+        case AST_NODE_TYPES.ImportDeclaration:
+          return add(node.source, node, 'import', node.importKind === 'type')
+        case AST_NODE_TYPES.ExportNamedDeclaration:
+        case AST_NODE_TYPES.ExportAllDeclaration:
+          return add(node.source, node, 'export', node.exportKind === 'type')
+        case AST_NODE_TYPES.ImportExpression:
+          return add(node.source, node, 'dynamic')
+        case AST_NODE_TYPES.TSImportEqualsDeclaration:
+          if (AST_NODE_TYPES.TSExternalModuleReference === node.moduleReference.type)
+            add(node.moduleReference.expression, node, 'require', node.importKind === 'type')
+          return
+        case AST_NODE_TYPES.CallExpression:
+          if (AST_NODE_TYPES.Identifier === node.callee.type && node.callee.name === 'require' && node.arguments.length === 1)
+            add(node.arguments[0], node, 'require')
+          return
+      }
+    },
+  })
+  return imports
+}
+
+async function readImports(filePath: string): Promise<ImportRef[]> {
+  const stat = await fs.promises.stat(filePath)
+  const cached = cache.get(filePath)
+  if (cached?.mtimeMs === stat.mtimeMs)
+    return cached.imports
+  const imports = findImports(await fs.promises.readFile(filePath, 'utf8'), filePath)
+  cache.set(filePath, { mtimeMs: stat.mtimeMs, imports })
+  return imports
+}
+
+/**
+ * Reads the imports of every source file of the project, those that can be parsed
+ * to an ESTree AST. Files that fail to parse are reported apart.
+ */
+async function readAllImports(root: string) {
+  const files = await getFileList(root, root)
+  const imports = new Map<string, ImportRef[]>()
+  const errors: ImportGraph['errors'] = []
+  for (const file of files.filter(file => getParser(file)?.parseEstree)) {
+    imports.set(file, [])
+    try {
+      imports.set(file, await readImports(file))
+    } catch (err) {
+      errors.push({ fileName: path.relative(root, file), error: describeParseError(err) })
+    }
+  }
+  return { files, imports, errors }
+}
+
+// TypeScript sources are imported as .js in ESM projects
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+}
+
+const RESOLVED_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.json']
+
+/**
+ * Resolves a relative import to a file of the project the way bundlers and
+ * TypeScript do: the exact path, with an extension added, a compiled extension
+ * swapped for its source one, or the index file of a directory.
+ */
+function resolveImport(files: Set<string>, fromFile: string, specifier: string): string | undefined {
+  const base = path.resolve(path.dirname(fromFile), specifier)
+  const extension = path.extname(base)
+  const candidates = [
+    base,
+    ...RESOLVED_EXTENSIONS.map(candidate => base + candidate),
+    ...(COMPILED_EXTENSIONS[extension] ?? []).map(candidate => base.slice(0, -extension.length) + candidate),
+    ...RESOLVED_EXTENSIONS.map(candidate => path.join(base, 'index' + candidate)),
+  ]
+  return candidates.find(candidate => files.has(candidate))
+}
+
+const isRelative = (specifier: string) => specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..'
+
+/**
+ * Groups files into strongly connected components with Tarjan's algorithm,
+ * every component with more than one file, or a file importing itself, is a cycle.
+ */
+function findCycles(files: string[], edges: ImportEdge[]): string[][] {
+  const targets = new Map<string, string[]>(files.map(file => [file, []]))
+  for (const edge of edges)
+    targets.get(edge.from)?.push(edge.to)
+
+  const indexes = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+
+  const visit = (file: string) => {
+    indexes.set(file, indexes.size)
+    lowLinks.set(file, indexes.get(file) as number)
+    stack.push(file)
+    onStack.add(file)
+    for (const target of targets.get(file) ?? []) {
+      if (!indexes.has(target)) {
+        visit(target)
+        lowLinks.set(file, Math.min(lowLinks.get(file) as number, lowLinks.get(target) as number))
+      } else if (onStack.has(target))
+        lowLinks.set(file, Math.min(lowLinks.get(file) as number, indexes.get(target) as number))
+    }
+    if (lowLinks.get(file) === indexes.get(file)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop() as string
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== file)
+      if (component.length > 1 || targets.get(file)?.includes(file))
+        cycles.push(component.sort())
+    }
+  }
+  for (const file of files)
+    if (!indexes.has(file))
+      visit(file)
+  return cycles
+}
+
+/**
+ * Builds the graph of the imports between the files of the project. Imports of
+ * packages and node built-ins are left out. Cycles only follow imports that
+ * remain at runtime, type-only imports are erased when compiled.
+ *
+ * @param {string} root - The project root.
+ * @returns {Promise<ImportGraph>} The graph, with file names relative to the root.
+ */
+export async function getImportGraph(root: string): Promise<ImportGraph> {
+  const { files, imports, errors } = await readAllImports(root)
+  const projectFiles = new Set(files)
+  const relative = (file: string) => path.relative(root, file)
+  const edges = new Map<string, ImportEdge>()
+  const unresolved: ImportGraph['unresolved'] = []
+
+  for (const [file, fileImports] of imports) {
+    for (const { specifier, line, typeOnly } of fileImports.filter(({ specifier }) => isRelative(specifier))) {
+      const target = resolveImport(projectFiles, file, specifier)
+      if (!target) {
+        unresolved.push({ fileName: relative(file), specifier, line })
+        continue
+      }
+      const key = `${file}\0${target}`
+      const edge = edges.get(key)
+      // a file imported both for types and for values is a runtime import
+      if (edge)
+        edge.typeOnly = edge.typeOnly && typeOnly
+      else
+        edges.set(key, { from: relative(file), to: relative(target), typeOnly, cyclic: false })
+    }
+  }
+
+  // source files, and the other files they import like JSON
+  const fileNames = [...new Set([...imports.keys(), ...[...edges.values()].map(edge => path.join(root, edge.to))])].map(relative).sort()
+  const cycles = findCycles(fileNames, [...edges.values()].filter(edge => !edge.typeOnly))
+  const cycleOf = new Map(cycles.flatMap((cycle, i) => cycle.map(file => [file, i])))
+  for (const edge of edges.values())
+    edge.cyclic = !edge.typeOnly && cycleOf.has(edge.from) && cycleOf.get(edge.from) === cycleOf.get(edge.to)
+
+  return { files: fileNames, edges: [...edges.values()], cycles, unresolved, errors }
+}
+
+const dotId = (text: string) => `"${text.replace(/["\\]/g, '\\$&')}"`
+
+/**
+ * Writes an import graph in the DOT language of Graphviz. Edges in a cycle
+ * are red, type-only imports are dashed.
+ *
+ * @param {ImportGraph} graph - The graph.
+ */
+export function toDot(graph: ImportGraph): string {
+  const attributes = (edge: ImportEdge) => {
+    const list = [...(edge.cyclic ? ['color=red'] : []), ...(edge.typeOnly ? ['style=dashed'] : [])]
+    return list.length ? ` [${list.join(', ')}]` : ''
+  }
+  return [
+    'digraph imports {',
+    '  node [shape=box];',
+    ...graph.files.map(file => `  ${dotId(file)};`),
+    ...graph.edges.map(edge => `  ${dotId(edge.from)} -> ${dotId(edge.to)}${attributes(edge)};`),
+    '}',
+    '',
+  ].join('\n')
+}
+
+/**
+ * The package an import specifier names, undefined for relative imports and node built-ins.
+ *
+ * @param {string} specifier - The import specifier, e.g. `@scope/name/sub/path`.
+ */
+export function packageOf(specifier: string): string | undefined {
+  if (isRelative(specifier) || specifier.startsWith('/') || specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0]))
+    return
+  const segments = specifier.split('/')
+  return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0]
+}
+
+/**
+ * Finds the files of the project that import a package, or a path inside it.
+ *
+ * @param {string} root - The project root.
+ * @param {string} packageName - The package.
+ */
+export async function findPackageImports(root: string, packageName: string): Promise<{ imports: PackageImport[], errors: ImportGraph['errors'] }> {
+  const { imports, errors } = await readAllImports(root)
+  const found: PackageImport[] = []
+  for (const [file, fileImports] of imports)
+    for (const ref of fileImports)
+      if (packageOf(ref.specifier) === packageName)
+        found.push({ fileName: path.relative(root, file), ...ref })
+  return { imports: found, errors }
+}
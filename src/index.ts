@@ -6,19 +6,53 @@ import fs from 'fs'
 import type http from 'http'
 import morgan from 'morgan'
 import path from 'path'
-import { runCommand } from './cmd-runner'
-import { handleErrors, validateDependencyOperation, validateFileName, validateFunctionName, validatePackageName, validateParams } from './error-handler'
-import { getFileList, isDirectory } from './file-utils'
-import { getFunctionData, getFunctionList } from './function-utils'
+import yaml from 'js-yaml'
+import { authenticate, getAuthConfig, manifestAuth, oauthRouter } from './auth'
+import { readBatch, toBatchItem } from './batch-read'
+import { describeForModel, getProfile, PROFILES, requireCapability } from './capabilities'
+import { cancelJob, getJob, runCommand, startJob } from './cmd-runner'
+import { formatCommandLine } from './command-policy'
+import { handleErrors, validateBatchRead, validateByteRange, validateCommand, validateDependencyName, validateDependencyOperation, validateFileContent, validateFileName, validateFunctionCode, validateFunctionName, validateGitCommit, validateGitQuery, validateHistoryId, validateImportGraph, validateJobOffsets, validatePackageName, validateParams, validatePatch, validatePosition, validateMoveFunction, validateProject, validateReadOptions, validateRename, validateSearch, validateTestRun } from './error-handler'
+import { CHARS_PER_TOKEN, getFileList, isDirectory, sliceFileContent, writeFileAtomic } from './file-utils'
+import { getFunctionData, getFunctionList, writeFunctionData } from './function-utils'
+import { byteRangeToLines, commit, getBlame, getDiff, getLog, getStatus } from './git-utils'
+import { getDeclaration, getOutdatedDependencies } from './dependency-utils'
+import { DiagnosticsResult, findDefinition, findReferences, getDiagnostics } from './language-service'
+import { getHistoryEntry, listHistory, readForHistory, recordChange, revertHistory } from './history'
+import { findPackageImports, getImportGraph, toDot } from './import-graph'
 import { logger } from './logger'
+import { arrayOf, buildOpenApi, ref, responses, RouteDefinition } from './openapi'
+import { getOutline } from './outline'
+import { detectPackageManager, diffDependencies, findWorkspace, listWorkspaces, snapshotDependencies } from './package-managers'
+import { applySearchReplace, applyUnifiedDiff } from './patch-utils'
+import { DEFAULT_PROJECT, describeProject, getProject, listProjects, loadProjectsFile, PROJECT_PREFIX, registerProject, resolveProject, unregisterProject } from './projects'
+import { applyRefactor, diffPlan, planMoveFunction, planRename, RefactorPlan } from './refactor'
+import { resolveSandboxedPath } from './sandbox'
+import { searchFileNames, searchFiles } from './search-utils'
+import { getIndexedSymbolList, getSymbolIndexStatus, startSymbolIndex, stopSymbolIndex } from './symbol-index'
+import { SymbolFileRef } from './symbol-utils'
+import { getLastTestRun, runTests } from './test-runner'
 
 // Define constants for server configuration
 const PORT = +(process.env.PORT ?? 3000)
 const HOST = process.env.HOST ?? '127.0.0.1'
 const TIMEOUT = '15000ms' // https://expressjs.com/en/resources/middleware/timeout.html
+const TEST_TIMEOUT = process.env.TEST_TIMEOUT ?? '300000ms'
 const BASE_PATH = process.env.BASE_PATH ?? path.resolve(__dirname, '..')
+// More projects to serve next to BASE_PATH, and the directory POST /projects may register projects in
+const PROJECTS_FILE = process.env.PROJECTS_FILE
+const PROJECTS_ROOT = process.env.PROJECTS_ROOT
 const ALLOW_OVERWRITE = process.env.ALLOW_OVERWRITE ?? false
-const PKG_MANAGER = process.env.PKG_MANAGER ?? 'yarn'
+// Largest accepted JSON body, e.g. a whole file or a diff, https://github.com/expressjs/body-parser#limit
+const MAX_BODY_SIZE = process.env.MAX_BODY_SIZE ?? '1mb'
+// The public URL of the plugin, used in the manifest and the OpenAPI document
+const BASE_URL = (process.env.BASE_URL ?? `http://localhost:${PORT}`).replace(/\/+$/, '')
+const AUTH = getAuthConfig()
+const PROFILE = getProfile()
+
+registerProject({ id: DEFAULT_PROJECT, root: BASE_PATH, profile: PROFILE.name }, 'environment')
+if (PROJECTS_FILE)
+  loadProjectsFile(PROJECTS_FILE)
 
 /**
  * Handle requests to /.well-known/ai-plugin.json
@@ -34,37 +68,55 @@ const aiPluginJson = async (req: express.Request, res: express.Response) => {
     "name_for_human": "Code Plugin",
     "name_for_model": "code",
     "description_for_human": "Plugin for reading and writing TypeScript code. You can fetch full and minimal versions of functions and files.",
-    "description_for_model": "Reading and writing files with code. Fetch full and minimal versions files and functions, created new files, run test commands.",
-    "auth": { "type": "none" },
+    "description_for_model": describeForModel(PROFILE),
+    "auth": manifestAuth(AUTH, BASE_URL),
     "api": {
       "type": "openapi",
-      "url": `http://localhost:${PORT}/openapi.yaml`
+      "url": `${BASE_URL}/openapi.yaml`
     },
-    "logo_url": `http://localhost:${PORT}/logo.png`,
+    "logo_url": `${BASE_URL}/logo.png`,
     "contact_email": "support@example.com",
     "legal_info_url": "http://www.example.com/legal"
   })
   res.end()
 }
 
+/**
+ * Handles requests to /openapi.yaml.
+ * Generates the API description from the route definitions, without the
+ * operations the active profile does not allow.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ */
 const openApiYaml = (req: express.Request, res: express.Response) => {
-  const openApiFilePath = path.join(__dirname, 'openapi.yaml')
-  fs.readFile(openApiFilePath, 'utf8', (err, data) => {
-    if (err)
-      return res.status(500).send('An error occured while reading openapi.yaml')
-    const updatedYaml = data.replace(/localhost:3000/g, `localhost:${PORT}`)
-    res.send(updatedYaml)
-  })
+  res.type('yaml').send(yaml.dump(buildOpenApi(routes, BASE_URL, PROFILE), { noRefs: true }))
+}
+
+/**
+ * Handles requests to /projects/:projectId/openapi.yaml.
+ * Describes the routes of one project, with the project in the server URL,
+ * without the operations its profile does not allow.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ */
+const projectOpenApiYaml = (req: express.Request, res: express.Response) => {
+  const projectRoutes = routes.filter(route => !route.global)
+  const serverUrl = `${BASE_URL}/projects/${encodeURIComponent(req.project.id)}`
+  res.type('yaml').send(yaml.dump(buildOpenApi(projectRoutes, serverUrl, req.project.profile), { noRefs: true }))
 }
 
 /**
- * Resolves the file path for a given file name.
+ * Resolves the file path for a given file name in the project of a request.
+ * Every file route goes through here, so the sandbox rules apply to all of them.
  *
+ * @param {express.Request} req - The HTTP request object.
  * @param {string} fileName - The name of the file.
- * @returns {string} The resolved file path.
+ * @returns {Promise<string>} The resolved file path.
  */
-const resolveFilePath = (fileName: string) => {
-  return path.join(BASE_PATH, decodeURIComponent(fileName))
+const resolveFilePath = (req: express.Request, fileName: string) => {
+  return resolveSandboxedPath(req.project.root, fileName)
 }
 
 /**
@@ -76,7 +128,7 @@ const resolveFilePath = (fileName: string) => {
  */
 const readFileContent = async (req: express.Request, content = true) => {
   const fileName = decodeURIComponent(req.params[0])
-  const filePath = resolveFilePath(fileName)
+  const filePath = await resolveFilePath(req, fileName)
   return {
     fileName,
     filePath,
@@ -84,9 +136,22 @@ const readFileContent = async (req: express.Request, content = true) => {
   }
 }
 
+/**
+ * Records a change made by a request in the undo journal.
+ *
+ * @param {express.Request} req - The HTTP request that made the change.
+ * @param {string} filePath - The changed file.
+ * @param {string|null} before - The content before the change, null when the file was created.
+ * @param {string|null} after - The content after the change.
+ */
+const recordFileChange = (req: express.Request, filePath: string, before: string | null, after: string | null) => {
+  return recordChange(req.project.root, `${req.method} ${req.route.path}`, path.relative(req.project.root, filePath), before, after)
+}
+
 /**
  * Handles GET requests to /files.
- * Fetches the list of files under BASE_PATH and sends it in the response.
+ * Fetches the list of files of the project, or of one of its workspace packages,
+ * and sends it in the response.
  *
  * @param {express.Request} req - The HTTP request object.
  * @param {express.Response} res - The HTTP response object.
@@ -95,26 +160,29 @@ const readFileContent = async (req: express.Request, content = true) => {
 const getFiles: express.RequestHandler = async (req, res, next) => {
   logger.info('getFiles')
   try {
-    const files = await getFileList(BASE_PATH)
-    res.send(files.map(fileName => encodeURIComponent(path.relative(BASE_PATH, fileName))))
+    const { root } = req.project
+    // names stay relative to the project root, so they can be passed to the other file routes
+    const workspace = req.query['workspace'] && path.join(root, (await findWorkspace(root, String(req.query['workspace']))).path)
+    const files = (await getFileList(root))
+      .filter(fileName => !workspace || !path.relative(workspace, fileName).startsWith('..'))
+    res.send(files.map(fileName => encodeURIComponent(path.relative(root, fileName))))
   } catch (err) {
     next(err)
   }
 }
 
 const postNewFile: express.RequestHandler = async (req, res, next) => {
-  validateParams(req, res, next)
   const fileName = req.params[0]
   const { content } = req.body
   logger.info(`Creating a new file named ${fileName}`)
-  if (!content)
-    return res.status(400).json({ error: 'Missing file content.' })
-  const filePath = path.join(BASE_PATH, fileName)
   try {
+    const filePath = await resolveFilePath(req, fileName)
     await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    const before = ALLOW_OVERWRITE ? await readForHistory(filePath) : null
     const fh = await fs.promises.open(filePath, ALLOW_OVERWRITE ? 'w' : 'wx')
     await fh.writeFile(content)
     await fh.close()
+    await recordFileChange(req, filePath, before, content)
     logger.info(`Successfully created new file ${fileName}`)
     res.status(201).json({ message: 'File created successfully' })
   } catch (err) {
@@ -122,47 +190,123 @@ const postNewFile: express.RequestHandler = async (req, res, next) => {
   }
 }
 
+/**
+ * Handles PATCH requests to /files/:fileName.
+ * Applies a unified diff or a list of search/replace hunks to an existing file.
+ * All hunks are checked against the current content before anything is written,
+ * a hunk that does not match rejects the whole patch with a 409.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const patchFile: express.RequestHandler = async (req, res, next) => {
+  const { diff, hunks } = req.body
+  try {
+    const { fileName, filePath, fileContent } = await readFileContent(req)
+    logger.info(`Patching file ${fileName}`)
+    const { content, ranges } = typeof diff === 'string'
+      ? applyUnifiedDiff(fileContent ?? '', diff)
+      : applySearchReplace(fileContent ?? '', hunks)
+    await writeFileAtomic(filePath, content)
+    await recordFileChange(req, filePath, fileContent ?? null, content)
+    logger.info(`Successfully patched file ${fileName}`)
+    res.json({ fileName, hunks: ranges })
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /search.
+ * Searches the content of the project files for `q`, as plain text or as a
+ * regular expression, or fuzzy matches file names when `mode=files`.
+ * Results are paged with `offset` and `limit`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const search: express.RequestHandler = async (req, res, next) => {
+  const query = String(req.query['q'])
+  const flag = (name: string) => ['true', '1'].includes(String(req.query[name]))
+  const options = {
+    query,
+    regex: flag('regex'),
+    caseSensitive: flag('caseSensitive'),
+    glob: req.query['glob'] ? String(req.query['glob']).split(',') : undefined,
+    context: Math.min(+(req.query['context'] ?? 2) || 0, 10),
+    offset: Math.max(+(req.query['offset'] ?? 0) || 0, 0),
+    limit: Math.min(Math.max(+(req.query['limit'] ?? 50) || 50, 1), 200),
+  }
+  logger.info(`Searching for ${query}`)
+  try {
+    res.json(req.query['mode'] === 'files'
+      ? await searchFileNames(req.project.root, options)
+      : await searchFiles(req.project.root, options))
+  } catch (err) {
+    next(err)
+  }
+}
+
 /**
  * Handles GET requests to /files/:fileName.
- * Responds with file content or an error
+ * Responds with a page of the file content, chosen by characters, lines or a
+ * cursor and limited by a budget, or with the files when it is a directory.
  *
  * @param {express.Request} req - The HTTP request object.
  * @param {express.Response} res - The HTTP response object.
  * @param {express.NextFunction} next - The next middleware function.
  */
 const getFileOrFolderContent: express.RequestHandler = async (req, res, next) => {
-  validateParams(req, res, next)
-  const { fileName, filePath } = await readFileContent(req, false)
+  try {
+    const { fileName, filePath } = await readFileContent(req, false)
 
-  if (await isDirectory(filePath)) {
-    logger.info(`Listing files in directory ${filePath}`)
-    try {
+    if (await isDirectory(filePath)) {
+      logger.info(`Listing files in directory ${filePath}`)
       const files = await getFileList(filePath)
-      res.send(files.map(fileName => encodeURIComponent(path.relative(BASE_PATH, fileName))))
-    } catch (err) {
-      next(err)
+      return res.send(files.map(fileName => encodeURIComponent(path.relative(req.project.root, fileName))))
     }
-    return
-  }
 
-  try {
     logger.info(`Reading file content file ${fileName}`)
     const { fileContent } = await readFileContent(req)
-    if (!fileContent)
-      return next({ error: 'No content found in file', fileName })
-    const startByte = +(req.query['startByte'] ?? 0)
-    const endByte = +(req.query['endByte'] ?? fileContent.length - 1)
+    const number = (name: string) => req.query[name] !== undefined ? +(req.query[name] as string) : undefined
     res.json({
       fileName,
-      content: fileContent.substring(startByte, endByte),
-      startByte,
-      endByte
+      ...sliceFileContent(fileContent ?? '', {
+        startByte: number('startByte'),
+        endByte: number('endByte'),
+        startLine: number('startLine'),
+        endLine: number('endLine'),
+        maxChars: number('maxChars'),
+        maxTokens: number('maxTokens'),
+        cursor: req.query['cursor'] as string | undefined,
+      })
     })
   } catch (err) {
     next(err)
   }
 }
 
+/**
+ * Handles POST requests to /batch/read.
+ * Reads several files, functions and line ranges in one response, within a shared budget.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const postBatchRead: express.RequestHandler = async (req, res, next) => {
+  const { items, maxChars, maxTokens } = req.body
+  logger.info(`Reading ${items.length} items in a batch`)
+  try {
+    const budget = maxChars ?? (maxTokens ? maxTokens * CHARS_PER_TOKEN : undefined)
+    res.json(await readBatch(req.project.root, items.map(toBatchItem), budget))
+  } catch (err) {
+    next(err)
+  }
+}
+
 /**
  * Handles GET requests to /functions.
  * Responds with a list of functions from all project .ts files
@@ -175,8 +319,8 @@ const getAllFunctions: express.RequestHandler = async (req, res, next) => {
   logger.info('getAllFunctions')
   try {
     res.send(
-      (await getFunctionList(BASE_PATH))
-        .map(obj => ({ ...obj, fileName: path.relative(BASE_PATH, obj.fileName) }))
+      (await getFunctionList(req.project.root))
+        .map(obj => ({ ...obj, fileName: path.relative(req.project.root, obj.fileName) }))
     )
   } catch (err) {
     next(err)
@@ -192,19 +336,271 @@ const getAllFunctions: express.RequestHandler = async (req, res, next) => {
  * @param {express.NextFunction} next - The next middleware function.
  */
 const getFunctionsInFile: express.RequestHandler = async (req, res, next) => {
-  validateParams(req, res, next)
   try {
     logger.info(`Reading file content file ${req.params[0]}`)
     const { fileName } = await readFileContent(req, false)
     res.send(
-      (await getFunctionList(BASE_PATH, fileName))
-        .map(obj => ({ ...obj, fileName: path.relative(BASE_PATH, obj.fileName) }))
+      (await getFunctionList(req.project.root, fileName))
+        .map(obj => ({ ...obj, fileName: path.relative(req.project.root, obj.fileName) }))
+    )
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /files/:fileName/outline.
+ * Responds with the skeleton of the file: imports and types in full, signatures
+ * with their comments and collapsed bodies, each line with its line number.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getFileOutline: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { fileName, filePath } = await readFileContent(req, false)
+    logger.info(`Outlining file ${fileName}`)
+    res.json({ fileName, ...await getOutline(filePath) })
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Filters a symbol list by the `kind` and `name` query parameters, and makes file names relative.
+ * A name matches either the plain or the qualified name of a symbol.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {SymbolFileRef[]} symbolList - The symbols to filter.
+ * @returns {SymbolFileRef[]} The matching symbols, files without matches are omitted unless they failed to parse.
+ */
+const filterSymbols = (req: express.Request, symbolList: SymbolFileRef[]) => {
+  const kinds = req.query['kind'] ? String(req.query['kind']).split(',') : undefined
+  const name = req.query['name'] ? String(req.query['name']) : undefined
+  return symbolList
+    .map(({ fileName, symbols, error }) => ({
+      fileName: path.relative(req.project.root, fileName),
+      symbols: symbols.filter(symbol =>
+        (!kinds || kinds.includes(symbol.kind)) &&
+        (!name || symbol.name === name || symbol.qualifiedName === name)),
+      ...(error ? { error } : {})
+    }))
+    .filter(({ symbols, error }) => symbols.length || error || !(kinds || name))
+}
+
+/**
+ * Handles GET requests to /symbols.
+ * Responds with the symbols (functions, methods, classes, interfaces, types, enums
+ * and namespaces) from all project .ts files, optionally filtered by kind and name.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getAllSymbols: express.RequestHandler = async (req, res, next) => {
+  logger.info('getAllSymbols')
+  try {
+    res.send(filterSymbols(req, await getIndexedSymbolList(req.project.root)))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /files/:fileName/symbols.
+ * Responds with the symbols from the specified .ts file, optionally filtered by kind and name.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getSymbolsInFile: express.RequestHandler = async (req, res, next) => {
+  try {
+    logger.info(`Reading symbols of file ${req.params[0]}`)
+    const { fileName } = await readFileContent(req, false)
+    res.send(filterSymbols(req, await getIndexedSymbolList(req.project.root, fileName)))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /symbols/:name/references.
+ * Responds with every reference to the named symbol across the project,
+ * optionally only for the symbol declared in the file given as `fileName`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getSymbolReferences: express.RequestHandler = async (req, res, next) => {
+  const { name } = req.params
+  const fileName = req.query['fileName'] ? decodeURIComponent(String(req.query['fileName'])) : undefined
+  logger.info(`Finding references to ${name}`)
+  try {
+    if (fileName)
+      await resolveFilePath(req, fileName)
+    const references = await findReferences(req.project.root, name, fileName)
+    if (!references)
+      return res.status(404).json({ error: 'Symbol not found' })
+    res.send(references.map(obj => ({ ...obj, fileName: path.relative(req.project.root, obj.fileName) })))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /files/:fileName/definition.
+ * Responds with the definition of the identifier at the `line` and `column` query parameters.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getDefinition: express.RequestHandler = async (req, res, next) => {
+  const line = +(req.query['line'] ?? 1)
+  const column = +(req.query['column'] ?? 1)
+  try {
+    const { fileName, filePath } = await readFileContent(req, false)
+    logger.info(`Finding definition at ${fileName}:${line}:${column}`)
+    res.send(
+      findDefinition(req.project.root, filePath, line, column)
+        .map(obj => ({ ...obj, fileName: path.relative(req.project.root, obj.fileName) }))
     )
   } catch (err) {
     next(err)
   }
 }
 
+/**
+ * Makes the file names of a diagnostics result relative to the project root.
+ *
+ * @param {string} root - The project root.
+ * @param {DiagnosticsResult} result - The diagnostics result.
+ */
+const relativeDiagnostics = (root: string, result: DiagnosticsResult) => ({
+  ...result,
+  diagnostics: result.diagnostics.map(obj => ({ ...obj, fileName: obj.fileName && path.relative(root, obj.fileName) }))
+})
+
+/**
+ * Handles GET requests to /diagnostics.
+ * Type-checks the whole project against its tsconfig.json and responds with the diagnostics.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getProjectDiagnostics: express.RequestHandler = async (req, res, next) => {
+  logger.info('getProjectDiagnostics')
+  try {
+    res.json(relativeDiagnostics(req.project.root, getDiagnostics(req.project.root)))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /files/:fileName/diagnostics.
+ * Type-checks a single file and responds with its diagnostics.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getFileDiagnostics: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { fileName, filePath } = await readFileContent(req, false)
+    logger.info(`Type-checking file ${fileName}`)
+    res.json(relativeDiagnostics(req.project.root, getDiagnostics(req.project.root, filePath)))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Responds with the diff of a refactor, and writes its changes unless `dryRun`
+ * is set. Applied changes are recorded in the history, one entry per file.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {RefactorPlan} plan - The changes of the refactor.
+ */
+const sendRefactor = async (req: express.Request, res: express.Response, plan: RefactorPlan) => {
+  const applied = !req.body.dryRun
+  if (applied) {
+    await applyRefactor(req.project.root, plan)
+    for (const { fileName, before, after } of plan.changes)
+      await recordFileChange(req, path.join(req.project.root, fileName), before, after)
+  }
+  res.json({
+    applied,
+    files: plan.changes.map(({ fileName, before }) => ({ fileName, created: before === null })),
+    diff: diffPlan(plan),
+    warnings: plan.warnings,
+  })
+}
+
+/**
+ * Handles POST requests to /refactor/rename.
+ * Renames a symbol, given by name or by the `fileName`, `line` and `column` of
+ * one of its uses, and all its references across the project.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const postRename: express.RequestHandler = async (req, res, next) => {
+  const { name, fileName, line, column, newName } = req.body
+  logger.info(`Renaming ${name ?? `${fileName}:${line}:${column}`} to ${newName}`)
+  try {
+    const filePath = fileName ? await resolveFilePath(req, fileName) : undefined
+    const plan = await planRename(req.project.root, { name, fileName: filePath, line, column }, newName)
+    if (!plan)
+      return res.status(404).json({ error: 'Symbol not found' })
+    await sendRefactor(req, res, plan)
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles POST requests to /refactor/move-function.
+ * Moves a top-level function to another file and updates the imports and
+ * exports of the project.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const postMoveFunction: express.RequestHandler = async (req, res, next) => {
+  const { fileName, functionName, targetFileName } = req.body
+  logger.info(`Moving function ${functionName} from ${fileName} to ${targetFileName}`)
+  try {
+    const filePath = await resolveFilePath(req, fileName)
+    const targetPath = await resolveFilePath(req, targetFileName)
+    const plan = await planMoveFunction(req.project.root, filePath, functionName, targetPath)
+    if (!plan)
+      return res.status(404).json({ error: 'Function not found' })
+    await sendRefactor(req, res, plan)
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /index/status.
+ * Responds with the state of the symbol index that backs /functions and /symbols.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ */
+const getIndexStatus: express.RequestHandler = (req, res) => {
+  const { root, ...status } = getSymbolIndexStatus(req.project.root)
+  res.json(status)
+}
+
 /**
  * Handles GET requests to /files/:fileName/functions/:functionName.
  * Responds with the content of the named function in a specific file.
@@ -214,7 +610,6 @@ const getFunctionsInFile: express.RequestHandler = async (req, res, next) => {
  * @param {express.NextFunction} next - The next middleware function.
  */
 const getFunctionContent: express.RequestHandler = async (req, res, next) => {
-  validateParams(req, res, next)
   try {
     const { functionName } = req.params
     logger.info(`Reading file content file ${req.params[0]} to inspect function ${functionName}`)
@@ -228,9 +623,36 @@ const getFunctionContent: express.RequestHandler = async (req, res, next) => {
   }
 }
 
+/**
+ * Handles PUT requests to /files/:fileName/functions/:functionName.
+ * Replaces the named function with the provided code, or inserts it as a new
+ * function after the sibling named in `after`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const putFunctionContent: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { functionName } = req.params
+    const { content, after } = req.body
+    logger.info(`Writing function ${functionName} in file ${req.params[0]}`)
+    const { filePath } = await readFileContent(req, false)
+    const before = await readForHistory(filePath)
+    const functionCode = await writeFunctionData(functionName, filePath, content, after)
+    if (!functionCode)
+      return res.status(404).json({ error: after ? `Function ${after} not found` : 'Function not found' })
+    await recordFileChange(req, filePath, before, await readForHistory(filePath))
+    res.status(after ? 201 : 200).json({ ...functionCode, fileName: path.relative(req.project.root, functionCode.fileName) })
+  } catch (err) {
+    next(err)
+  }
+}
+
 /**
  * Handles POST requests to /run-command.
- * Executes a command and streams the output.
+ * Starts the command as a background job and responds with its id,
+ * the output is read with GET /jobs/:id.
  *
  * @param {express.Request} req - The HTTP request object.
  * @param {express.Response} res - The HTTP response object.
@@ -239,95 +661,1568 @@ const getFunctionContent: express.RequestHandler = async (req, res, next) => {
 const runCmd: express.RequestHandler = async (req, res, next) => {
   const { command } = req.body;
 
-  if (!command)
-    return res.status(400).json({ error: 'Command is required' });
-
   try {
-    const { exitCode, stdout, stderr } = await runCommand(command, BASE_PATH)
-    res.json({ exitCode, stdout, stderr })
+    const jobId = startJob(command, req.project.root)
+    logger.info(`Started job ${jobId}`)
+    // the job is only found again under the prefix of its project
+    const prefix = req.params.projectId ? `/projects/${encodeURIComponent(req.params.projectId)}` : ''
+    res.status(202).location(`${prefix}/jobs/${jobId}`).json({ jobId, status: 'running' })
   } catch (error) {
     next(error);
   }
 }
 
-const getDependencies: express.RequestHandler = async (req, res, next) => {
-  // Ignore PKG_MANAGER here because:
-  //   github.com/yarnpkg/yarn/issues/3569
-  const command = `npm list --json --depth=0 --omit dev`
-  try {
-    const { exitCode, stdout, stderr } = await runCommand(command, BASE_PATH, false)
-    res.json({ exitCode, stdout, stderr })
-  } catch (error) {
-    next(error)
-  }
+/**
+ * Handles GET requests to /jobs/:id.
+ * Responds with the job status and its output since `stdoutOffset` and `stderrOffset`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ */
+const getJobStatus: express.RequestHandler = (req, res) => {
+  const job = getJob(req.project.root, req.params.id, +(req.query['stdoutOffset'] ?? 0) || 0, +(req.query['stderrOffset'] ?? 0) || 0)
+  if (!job)
+    return res.status(404).json({ error: 'Job not found' })
+  res.json(job)
 }
 
-const postDependencies: express.RequestHandler = async (req, res, next) => {
-  const { operation, packageName, version } = req.body;
-  let op, command = ''
-  switch (operation) {
-    case 'list':
-      command = `${PKG_MANAGER} list`
-      break
-    case 'add':
-      op = PKG_MANAGER === 'yarn' ? 'add' : 'install'
-      command = `${PKG_MANAGER} ${op} ${packageName}${version ? `@${version}` : ''}`
-      break
-    case 'remove':
-      op = PKG_MANAGER === 'yarn' ? 'remove' : 'uninstall'
-      command = `${PKG_MANAGER} ${op} ${packageName}`
-      break
-    case 'update':
-      op = PKG_MANAGER === 'yarn' ? 'upgrade' : 'update'
-      command = `${PKG_MANAGER} ${op} ${packageName}${version ? `@${version}` : ''}`
-      break
-  }
-  try {
-    const { exitCode, stdout, stderr } = await runCommand(command, BASE_PATH, false)
-    res.json({ exitCode, stdout, stderr })
-  } catch (error) {
-    next(error)
+/**
+ * Handles DELETE requests to /jobs/:id.
+ * Cancels a running job.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ */
+const deleteJob: express.RequestHandler = (req, res) => {
+  if (!cancelJob(req.project.root, req.params.id))
+    return res.status(404).json({ error: 'Job not found' })
+  logger.info(`Cancelled job ${req.params.id}`)
+  res.json(getJob(req.project.root, req.params.id))
+}
+
+/**
+ * Handles POST requests to /tests/run.
+ * Runs the project's jest, optionally for one file, a test name pattern or the
+ * changed files, and responds with the results per suite and per test.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const postTestRun: express.RequestHandler = async (req, res, next) => {
+  const { fileName, testNamePattern, changed, coverage } = req.body
+  logger.info(`Running tests${fileName ? ` for ${fileName}` : ''}`)
+  try {
+    const filePath = fileName ? await resolveFilePath(req, fileName) : undefined
+    res.json(await runTests(req.project.root, { fileName: filePath && path.relative(req.project.root, filePath), testNamePattern, changed, coverage }))
+  } catch (err) {
+    next(err)
   }
 }
 
 /**
- * Sets extra CORS headers.
- * Middleware that adds headers required by OpenAI plugins to each response.
+ * Handles GET requests to /tests/last.
+ * Responds with the results of the last test run, without running the tests again.
  *
  * @param {express.Request} req - The HTTP request object.
  * @param {express.Response} res - The HTTP response object.
  * @param {express.NextFunction} next - The next middleware function.
  */
-const extraCors: express.RequestHandler = async (req, res, next) => {
-  res.setHeader("Access-Control-Allow-Private-Network", "true")
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
-  next()
+const getLastTestResults: express.RequestHandler = async (req, res, next) => {
+  try {
+    const run = await getLastTestRun(req.project.root)
+    if (!run)
+      return res.status(404).json({ error: 'Tests have not run yet' })
+    res.json(run)
+  } catch (err) {
+    next(err)
+  }
 }
 
-const app = express()
+/**
+ * Resolves the optional `fileName` query parameter to a path relative to the
+ * project root, through the sandbox like the file routes.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @returns {Promise<Object>} The file path and its name relative to the project root, if a file was given.
+ */
+const queryFile = async (req: express.Request) => {
+  if (!req.query['fileName'])
+    return {}
+  const filePath = await resolveFilePath(req, String(req.query['fileName']))
+  return { filePath, fileName: path.relative(req.project.root, filePath) }
+}
+
+/**
+ * Handles GET requests to /git/status.
+ * Responds with the branch and the changed and untracked files of the project.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getGitStatus: express.RequestHandler = async (req, res, next) => {
+  logger.info('getGitStatus')
+  try {
+    res.json(await getStatus(req.project.root))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /git/diff.
+ * Responds with the unified diff of the working tree, of the staged changes
+ * with `staged=true`, or between the `from` and `to` refs, optionally for one file.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getGitDiff: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { fileName } = await queryFile(req)
+    logger.info(`Diffing ${fileName ?? 'the project'}`)
+    res.json(await getDiff(req.project.root, {
+      from: req.query['from'] as string | undefined,
+      to: req.query['to'] as string | undefined,
+      staged: ['true', '1'].includes(String(req.query['staged'])),
+      fileName,
+    }))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /git/log.
+ * Responds with the commits of the project, of a file, or of a range of lines
+ * in a file given as `startLine` and `endLine` or as a `functionName`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getGitLog: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { fileName, filePath } = await queryFile(req)
+    let startLine = req.query['startLine'] ? +req.query['startLine'] : undefined
+    let endLine = req.query['endLine'] ? +req.query['endLine'] : undefined
+    if (filePath && req.query['functionName']) {
+      const functionData = await getFunctionData(String(req.query['functionName']), filePath)
+      if (!functionData)
+        return res.status(404).json({ error: 'Function not found' })
+      ;({ startLine, endLine } = await byteRangeToLines(filePath, functionData.startByte, functionData.endByte))
+    }
+    logger.info(`Reading the history of ${fileName ?? 'the project'}`)
+    res.json(await getLog(req.project.root, {
+      ref: req.query['ref'] as string | undefined,
+      fileName,
+      startLine,
+      endLine,
+      limit: +(req.query['limit'] ?? 20),
+    }))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /git/blame.
+ * Responds with the commit that last changed each line of `fileName`, for the
+ * lines from `startLine` to `endLine` or the lines spanned by `startByte` and `endByte`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getGitBlame: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { fileName, filePath } = await queryFile(req)
+    if (!fileName || !filePath)
+      return res.status(400).json({ error: 'Query parameter fileName is required.' })
+    let startLine = req.query['startLine'] ? +req.query['startLine'] : undefined
+    let endLine = req.query['endLine'] ? +req.query['endLine'] : undefined
+    if (req.query['startByte'] !== undefined || req.query['endByte'] !== undefined)
+      ({ startLine, endLine } = await byteRangeToLines(filePath, +(req.query['startByte'] ?? 0), req.query['endByte'] ? +req.query['endByte'] : undefined))
+    logger.info(`Blaming ${fileName}`)
+    res.json({ fileName, lines: await getBlame(req.project.root, fileName, startLine, endLine) })
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles POST requests to /git/commit.
+ * Commits all changes in the project, or only `files`, with the given message.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const postGitCommit: express.RequestHandler = async (req, res, next) => {
+  const { message, files } = req.body
+  try {
+    const fileNames = files && await Promise.all((files as string[]).map(async fileName => path.relative(req.project.root, await resolveFilePath(req, fileName))))
+    logger.info(`Committing ${fileNames ? fileNames.join(', ') : 'all changes'}`)
+    res.status(201).json(await commit(req.project.root, message, fileNames))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /history.
+ * Responds with the changes made to files through the plugin, newest first,
+ * optionally only those of `fileName`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getHistory: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { fileName } = await queryFile(req)
+    logger.info(`Listing the history of ${fileName ?? 'the project'}`)
+    res.json(await listHistory(req.project.root, fileName))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /history/:id.
+ * Responds with a change, including the file content before and after it.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getHistoryChange: express.RequestHandler = async (req, res, next) => {
+  try {
+    const entry = await getHistoryEntry(req.project.root, +req.params.id)
+    if (!entry)
+      return res.status(404).json({ error: 'Change not found' })
+    res.json(entry)
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles POST requests to /history/:id/revert.
+ * Rolls back a change, or with `since` every change made from that one on.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const postHistoryRevert: express.RequestHandler = async (req, res, next) => {
+  const since = req.body?.since === true
+  logger.info(`Reverting change ${req.params.id}${since ? ' and every later change' : ''}`)
+  try {
+    const entries = await revertHistory(req.project.root, +req.params.id, since)
+    if (!entries)
+      return res.status(404).json({ error: 'Change not found' })
+    res.json(entries)
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /dependencies.
+ * Lists the direct dependencies of the root package with the package manager of the project.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getDependencies: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { manager } = await detectPackageManager(req.project.root)
+    const command = formatCommandLine(manager.list({}))
+    const { exitCode, stdout, stderr } = await runCommand(command, req.project.root, false)
+    res.json({ exitCode, stdout, stderr, packageManager: manager.name, command })
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Handles POST requests to /dependencies.
+ * Lists, adds, removes or updates dependencies with the package manager of the
+ * project, in the root package or in a workspace, and responds with the output
+ * and the changes made to package.json files and the lockfile.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const postDependencies: express.RequestHandler = async (req, res, next) => {
+  const { operation, packageName, version, dev, workspace } = req.body;
+  try {
+    const { manager } = await detectPackageManager(req.project.root)
+    const target = workspace ? await findWorkspace(req.project.root, workspace) : undefined
+    const options = { dev, workspace: target?.name }
+    const spec = `${packageName}${version ? `@${version}` : ''}`
+    let argv: string[]
+    switch (operation) {
+      case 'list':
+        argv = manager.list(options)
+        break
+      case 'add':
+        argv = manager.add(spec, options)
+        break
+      case 'remove':
+        argv = manager.remove(packageName, options)
+        break
+      case 'update':
+        argv = manager.update(spec, options)
+        break
+      default:
+        return res.status(400).json({ error: `Unknown operation ${operation}` })
+    }
+    const command = formatCommandLine(argv)
+    logger.info(`Running ${command}`)
+
+    // a workspace command may change the root package.json too, e.g. hoisted dependencies
+    const manifests = ['package.json', ...(target ? [path.posix.join(target.path, 'package.json')] : [])]
+    const before = await snapshotDependencies(req.project.root, manager, manifests)
+    const { exitCode, stdout, stderr } = await runCommand(command, req.project.root, false)
+    const changes = operation === 'list' ? undefined : diffDependencies(before, await snapshotDependencies(req.project.root, manager, manifests))
+    res.json({ exitCode, stdout, stderr, packageManager: manager.name, command, ...(changes ? { changes } : {}) })
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Handles GET requests to /dependencies/manager.
+ * Responds with the package manager of the project, how it was detected, and the workspaces.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getPackageManager: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { manager, detectedFrom, lockfiles } = await detectPackageManager(req.project.root)
+    res.json({ name: manager.name, lockfile: manager.lockfile, detectedFrom, lockfiles, workspaces: await listWorkspaces(req.project.root) })
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /dependencies/outdated.
+ * Responds with the dependencies whose lockfile and installed versions disagree with
+ * package.json or with each other, or with every dependency with `all=true`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getOutdated: express.RequestHandler = async (req, res, next) => {
+  logger.info('getOutdated')
+  try {
+    res.json(await getOutdatedDependencies(req.project.root, ['true', '1'].includes(String(req.query['all']))))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /dependencies/:name/why.
+ * Responds with how a package is declared and the project files that import it.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getDependencyWhy: express.RequestHandler = async (req, res, next) => {
+  const { name } = req.params
+  logger.info(`Finding the imports of ${name}`)
+  try {
+    const [declaration, { imports, errors }] = await Promise.all([getDeclaration(req.project.root, name), findPackageImports(req.project.root, name)])
+    res.json({ name, ...declaration, importedBy: imports, errors })
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles GET requests to /imports/graph.
+ * Responds with the imports between the files of the project and their cycles,
+ * as JSON or as a Graphviz DOT document with `format=dot`.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getImports: express.RequestHandler = async (req, res, next) => {
+  logger.info('getImports')
+  try {
+    const graph = await getImportGraph(req.project.root)
+    if (req.query['format'] === 'dot')
+      return res.type('text/vnd.graphviz').send(toDot(graph))
+    res.json(graph)
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Sets extra CORS headers.
+ * Middleware that adds headers required by OpenAI plugins to each response.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const extraCors: express.RequestHandler = async (req, res, next) => {
+  res.setHeader("Access-Control-Allow-Private-Network", "true")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+  next()
+}
+
+const fileReference = {
+  type: 'object',
+  properties: {
+    startByte: { type: 'number' },
+    endByte: { type: 'number' },
+    line: { type: 'number' },
+    column: { type: 'number' },
+  },
+}
+
+const gitFileStatus = { type: 'string', nullable: true, enum: ['modified', 'added', 'deleted', 'renamed', 'copied', 'unmerged', 'untracked', 'type-changed'] }
+
+// A file that could not be parsed, listed instead of failing the whole request
+const parseErrorSchema = { type: 'object', properties: { fileName: { type: 'string' }, error: { type: 'string' } } }
+
+const symbolFilters: RouteDefinition['parameters'] = [
+  { name: 'kind', in: 'query', description: 'comma separated list of symbol kinds to include', schema: { type: 'string' } },
+  { name: 'name', in: 'query', description: 'only include symbols with this plain or qualified name', schema: { type: 'string' } },
+]
+
+/**
+ * Handles GET requests to /projects.
+ * Responds with the projects served by the plugin.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ */
+const getProjects: express.RequestHandler = (req, res) => {
+  res.json(listProjects().map(describeProject))
+}
+
+/**
+ * Handles GET requests to /projects/:id.
+ * Responds with a project and its workspace packages.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const getProjectById: express.RequestHandler = async (req, res, next) => {
+  try {
+    const project = getProject(req.params.id)
+    if (!project)
+      return res.status(404).json({ error: `Unknown project ${req.params.id}` })
+    res.json({ ...describeProject(project), workspaces: await listWorkspaces(project.root) })
+  } catch (err) {
+    next(err)
+  }
+}
+
+// Keeps the symbol index of a project up to date while the server runs
+const watchProject = (root: string) => startSymbolIndex(root)
+  .catch(err => logger.error(`Failed to build symbol index of ${root}: ${err}`))
+
+/**
+ * Handles POST requests to /projects.
+ * Registers a directory under PROJECTS_ROOT as a project, until the server
+ * restarts. Its profile cannot allow more than the profile of the server.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const postProject: express.RequestHandler = async (req, res, next) => {
+  const { id, root, profile = PROFILE.name, deny } = req.body
+  try {
+    if (!PROJECTS_ROOT)
+      return res.status(403).json({ error: 'Registering projects is disabled, set PROJECTS_ROOT to the directory they may be in' })
+    const extra = getProfile(profile).capabilities
+    const denied = [...extra].filter(capability => !PROFILE.capabilities.has(capability))
+    if (denied.length)
+      return res.status(403).json({ error: `The ${PROFILE.name} profile of the server does not allow ${denied.join(', ')}` })
+    const projectRoot = await resolveSandboxedPath(PROJECTS_ROOT, root)
+    const project = registerProject({ id, root: projectRoot, profile, deny }, 'api')
+    logger.info(`Registered project ${id} at ${project.root}`)
+    if (require.main === module)
+      watchProject(project.root)
+    res.status(201).json(describeProject(project))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * Handles DELETE requests to /projects/:id.
+ * Stops serving a project, its files are left as they are.
+ *
+ * @param {express.Request} req - The HTTP request object.
+ * @param {express.Response} res - The HTTP response object.
+ * @param {express.NextFunction} next - The next middleware function.
+ */
+const deleteProject: express.RequestHandler = (req, res, next) => {
+  try {
+    const project = unregisterProject(req.params.id)
+    if (!project)
+      return res.status(404).json({ error: `Unknown project ${req.params.id}` })
+    stopSymbolIndex(project.root)
+    logger.info(`Removed project ${project.id}`)
+    res.json(describeProject(project))
+  } catch (err) {
+    next(err)
+  }
+}
+
+/**
+ * The routes of the API, in the order they are matched.
+ * Each one is registered on the app and described in /openapi.yaml from here.
+ */
+const routes: RouteDefinition[] = [
+  {
+    method: 'get', path: '/files', operationId: 'getFiles', handler: getFiles,
+    summary: 'Get the list of files in this project',
+    parameters: [
+      { name: 'workspace', in: 'query', description: 'only list the files of this workspace package, by name or path', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: { description: 'Successful', schema: arrayOf({ type: 'string' }) },
+      400: responses.badRequest,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'post', path: '/files/*', operationId: 'postNewFile', handler: postNewFile,
+    capability: 'write', validators: [validateFileName, validateFileContent],
+    summary: 'Create a new file in the project with specified content',
+    parameters: [{ name: 'fileName', in: 'path', description: 'The name of the file to create', schema: { type: 'string' } }],
+    requestBody: {
+      schema: { type: 'object', properties: { content: { type: 'string' } }, required: ['content'] },
+      example: { content: 'Hello, world!' },
+    },
+    responses: {
+      201: { description: 'File created successfully', schema: { type: 'object', properties: { message: { type: 'string' } } } },
+      400: { description: 'Bad request (missing content or file already exists)' },
+      403: responses.forbidden,
+      413: responses.tooLarge,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'patch', path: '/files/*', operationId: 'patchFile', handler: patchFile,
+    capability: 'write', validators: [validateFileName, validatePatch],
+    summary: 'Edit an existing file by applying a unified diff or a list of search/replace hunks. All hunks must match the current content or nothing is written.',
+    parameters: [{ name: 'fileName', in: 'path', description: 'The name of the file to edit', schema: { type: 'string' } }],
+    requestBody: {
+      schema: {
+        type: 'object',
+        properties: {
+          diff: { type: 'string', description: 'unified diff of this one file against its current content, file headers are optional' },
+          hunks: {
+            description: 'search/replace pairs, each search text must appear exactly once in the file',
+            ...arrayOf({ type: 'object', properties: { search: { type: 'string' }, replace: { type: 'string' } }, required: ['search', 'replace'] }),
+          },
+        },
+      },
+      example: { hunks: [{ search: 'const PORT = 3000', replace: 'const PORT = 8080' }] },
+    },
+    responses: {
+      200: {
+        description: 'File patched successfully',
+        schema: {
+          type: 'object',
+          properties: {
+            fileName: { type: 'string' },
+            hunks: {
+              description: 'location of every applied hunk in the new file content, in UTF-8 bytes',
+              ...arrayOf({ type: 'object', properties: { startByte: { type: 'number' }, endByte: { type: 'number' } } }),
+            },
+          },
+        },
+      },
+      400: { description: 'Bad request (missing or malformed diff or hunks)' },
+      403: responses.forbidden,
+      404: responses.notFound,
+      409: {
+        description: 'A hunk does not match the current file content',
+        schema: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            hunk: { type: 'number', description: 'index of the rejected hunk' },
+            line: { type: 'number', description: 'line number where the hunk was expected' },
+            expected: { type: 'string' },
+            actual: { type: 'string', description: 'the content found around that location, if any' },
+          },
+        },
+      },
+      413: responses.tooLarge,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/search', operationId: 'search', handler: search,
+    validators: [validateSearch],
+    summary: 'Search the content of all files in this project and get matching lines with surrounding context, or fuzzy search file names with mode=files',
+    parameters: [
+      { name: 'q', in: 'query', required: true, description: 'text to search for', schema: { type: 'string' } },
+      { name: 'regex', in: 'query', description: 'treat q as a regular expression', schema: { type: 'boolean' } },
+      { name: 'caseSensitive', in: 'query', schema: { type: 'boolean' } },
+      { name: 'glob', in: 'query', description: 'comma separated gitignore-style patterns the file names must match, e.g. src/**/*.ts', schema: { type: 'string' } },
+      { name: 'mode', in: 'query', description: 'content searches file content, files fuzzy matches file names', schema: { type: 'string', enum: ['content', 'files'] } },
+      { name: 'context', in: 'query', description: 'number of lines before and after each match, at most 10', schema: { type: 'number' } },
+      { name: 'offset', in: 'query', schema: { type: 'number' } },
+      { name: 'limit', in: 'query', description: 'page size, at most 200', schema: { type: 'number' } },
+    ],
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            offset: { type: 'number' },
+            limit: { type: 'number' },
+            nextOffset: { type: 'number', description: 'offset of the next page, missing on the last page' },
+            results: arrayOf({
+              type: 'object',
+              properties: {
+                fileName: { type: 'string' },
+                line: { type: 'number' },
+                column: { type: 'number' },
+                text: { type: 'string' },
+                before: arrayOf({ type: 'string' }),
+                after: arrayOf({ type: 'string' }),
+                score: { type: 'number', description: 'fuzzy match score, only with mode=files' },
+              },
+            }),
+          },
+        },
+      },
+      400: { description: 'Bad request (missing query or invalid regular expression)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/functions', operationId: 'getFunctions', handler: getAllFunctions,
+    summary: 'Get the list of all functions in all files in this project',
+    responses: {
+      200: { description: 'Successful', schema: arrayOf(ref('FileFunctions')) },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/symbols', operationId: 'getSymbols', handler: getAllSymbols,
+    summary: 'Get all symbols (functions, methods, classes, interfaces, types, enums and namespaces) in all files in this project',
+    parameters: symbolFilters,
+    responses: {
+      200: { description: 'Successful', schema: arrayOf(ref('FileSymbols')) },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/symbols/:name/references', operationId: 'getSymbolReferences', handler: getSymbolReferences,
+    summary: 'Find every reference to a symbol across the project, like callers of a function',
+    parameters: [
+      { name: 'name', in: 'path', description: 'plain or qualified symbol name, e.g. getFileList or Class.method', schema: { type: 'string' } },
+      { name: 'fileName', in: 'query', description: 'only use the symbol declared in this file', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: arrayOf({
+          type: 'object',
+          properties: {
+            fileName: { type: 'string' },
+            references: arrayOf({ ...fileReference, properties: { ...fileReference.properties, isDefinition: { type: 'boolean' } } }),
+          },
+        }),
+      },
+      403: responses.forbidden,
+      404: { description: 'Not found (no symbol with this name)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/index/status', operationId: 'getIndexStatus', handler: getIndexStatus,
+    summary: 'Get the freshness of the symbol index used by the functions and symbols endpoints',
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            state: { type: 'string', enum: ['building', 'ready', 'error'] },
+            watching: { type: 'boolean', description: 'whether file changes are applied as they happen' },
+            files: { type: 'number' },
+            symbols: { type: 'number' },
+            pending: { type: 'number', description: 'changed paths waiting to be re-indexed' },
+            builtAt: { type: 'string' },
+            updatedAt: { type: 'string' },
+            errors: {
+              description: 'files that could not be parsed',
+              ...arrayOf({ type: 'object', properties: { fileName: { type: 'string' }, error: { type: 'string' } } }),
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    method: 'get', path: '/diagnostics', operationId: 'getProjectDiagnostics', handler: getProjectDiagnostics,
+    summary: 'Type-check the whole project with its tsconfig.json and list the errors. Use this after writing files.',
+    responses: {
+      200: { description: 'Successful', schema: ref('Diagnostics') },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'post', path: '/refactor/rename', operationId: 'renameSymbol', handler: postRename,
+    capability: 'write', capabilityApplies: req => !req.body.dryRun, validators: [validateRename],
+    summary: 'Rename a symbol and all its references across the project. Use dryRun to preview the diff first.',
+    requestBody: {
+      schema: {
+        type: 'object',
+        required: ['newName'],
+        properties: {
+          newName: { type: 'string' },
+          name: { type: 'string', description: 'name of the symbol, add fileName when several files declare one' },
+          fileName: { type: 'string', description: 'file declaring the symbol, or using it at line and column' },
+          line: { type: 'number', description: 'line of a use of the symbol, starting at 1' },
+          column: { type: 'number', description: 'column of a use of the symbol, starting at 1' },
+          dryRun: { type: 'boolean', description: 'only respond with the diff, without writing' },
+        },
+      },
+    },
+    responses: {
+      200: { description: 'Renamed, or the preview of a dry run', schema: ref('RefactorResult') },
+      400: { description: 'Bad request (invalid name, symbol declared by a library or by several files)', schema: ref('Error') },
+      403: responses.forbidden,
+      404: { description: 'Not found (file or symbol not found)' },
+      409: { description: 'The new name is already taken where the symbol is declared or used, or a file changed while the rename was planned', schema: ref('Error') },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'post', path: '/refactor/move-function', operationId: 'moveFunction', handler: postMoveFunction,
+    capability: 'write', capabilityApplies: req => !req.body.dryRun, validators: [validateMoveFunction],
+    summary: 'Move a top-level function to another file, created when missing, and update the imports and exports. Use dryRun to preview the diff first.',
+    requestBody: {
+      schema: {
+        type: 'object',
+        required: ['fileName', 'functionName', 'targetFileName'],
+        properties: {
+          fileName: { type: 'string' },
+          functionName: { type: 'string' },
+          targetFileName: { type: 'string' },
+          dryRun: { type: 'boolean', description: 'only respond with the diff, without writing' },
+        },
+      },
+    },
+    responses: {
+      200: { description: 'Moved, or the preview of a dry run', schema: ref('RefactorResult') },
+      400: { description: 'Bad request (not a top-level function, default export, or target not a script)', schema: ref('Error') },
+      403: responses.forbidden,
+      404: { description: 'Not found (file or function not found)' },
+      409: { description: 'The target already declares the name, or a file changed while the move was planned', schema: ref('Error') },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/files/*/functions/:functionName', operationId: 'getFunctionContent', handler: getFunctionContent,
+    validators: [validateFileName, validateFunctionName],
+    summary: 'Get the content of a specific function in this project, methods can be named as Class.method',
+    responses: {
+      200: { description: 'Successful', schema: ref('FunctionData') },
+      400: responses.badRequest,
+      403: responses.forbidden,
+      404: { description: 'Not found (file or function not found)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'put', path: '/files/*/functions/:functionName', operationId: 'putFunctionContent', handler: putFunctionContent,
+    capability: 'write', validators: [validateFileName, validateFunctionName, validateFunctionCode],
+    summary: 'Replace a function in a file with new code, or insert a new function after an existing sibling function. The code is syntax checked before the file is written.',
+    parameters: [
+      { name: 'functionName', in: 'path', description: 'The function to replace, or the name of the new function when inserting', schema: { type: 'string' } },
+    ],
+    requestBody: {
+      schema: {
+        type: 'object',
+        properties: {
+          content: { type: 'string', description: 'the full declaration of the function, as returned in content.full' },
+          after: { type: 'string', description: 'insert the function after this existing function instead of replacing it' },
+        },
+        required: ['content'],
+      },
+      example: { content: 'function add(a: number, b: number) {\n  return a + b\n}' },
+    },
+    responses: {
+      200: { description: 'Function replaced', schema: ref('FunctionData') },
+      201: { description: 'Function inserted', schema: ref('FunctionData') },
+      400: { description: 'Bad request (missing content, or the code has a syntax error)' },
+      403: responses.forbidden,
+      404: { description: 'Not found (file, function or sibling function not found)' },
+      409: { description: 'Function already exists when inserting, or the code does not declare the named function' },
+      413: responses.tooLarge,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/files/*/functions', operationId: 'getFunctionsInFile', handler: getFunctionsInFile,
+    validators: [validateFileName],
+    summary: 'Get the list of functions in a specified file in this project',
+    responses: {
+      200: { description: 'Successful', schema: arrayOf(ref('FileFunctions')) },
+      400: responses.badRequest,
+      403: responses.forbidden,
+      404: responses.notFound,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/files/*/symbols', operationId: 'getSymbolsInFile', handler: getSymbolsInFile,
+    validators: [validateFileName],
+    summary: 'Get the symbols declared in a specified file in this project',
+    parameters: symbolFilters,
+    responses: {
+      200: { description: 'Successful', schema: arrayOf(ref('FileSymbols')) },
+      400: responses.badRequest,
+      403: responses.forbidden,
+      404: responses.notFound,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/files/*/outline', operationId: 'getFileOutline', handler: getFileOutline,
+    validators: [validateFileName],
+    summary: 'Get a compact skeleton of a file: imports, types and interfaces in full, function and class signatures with their comments, bodies collapsed to { ... }. Read this before fetching specific functions of a large file.',
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            fileName: { type: 'string' },
+            totalLines: { type: 'number' },
+            outline: { type: 'string', description: 'the skeleton, every line starts with its line number in the file' },
+          },
+        },
+      },
+      400: { description: 'Bad request (the file has a syntax error)', schema: ref('Error') },
+      403: responses.forbidden,
+      404: responses.notFound,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/files/*/definition', operationId: 'getDefinition', handler: getDefinition,
+    validators: [validateFileName, validatePosition],
+    summary: 'Go to the definition of the identifier at a line and column of a file, e.g. to find where an import comes from',
+    parameters: [
+      { name: 'line', in: 'query', required: true, description: 'line number, starting at 1', schema: { type: 'number' } },
+      { name: 'column', in: 'query', description: 'column number, starting at 1', schema: { type: 'number' } },
+    ],
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: arrayOf({
+          type: 'object',
+          properties: {
+            fileName: { type: 'string' },
+            definitions: arrayOf({
+              ...fileReference,
+              properties: { name: { type: 'string' }, kind: { type: 'string' }, containerName: { type: 'string' }, ...fileReference.properties },
+            }),
+          },
+        }),
+      },
+      400: { description: 'Bad request (line or column missing or outside of the file)' },
+      403: responses.forbidden,
+      404: responses.notFound,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/files/*/diagnostics', operationId: 'getFileDiagnostics', handler: getFileDiagnostics,
+    validators: [validateFileName],
+    summary: 'Type-check a single file and list its errors',
+    responses: {
+      200: { description: 'Successful', schema: ref('Diagnostics') },
+      400: responses.badRequest,
+      403: responses.forbidden,
+      404: responses.notFound,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/files/*', operationId: 'getFileOrFolderContent', handler: getFileOrFolderContent,
+    validators: [validateFileName, validateByteRange, validateReadOptions],
+    summary: 'Get the content of a file in this project, or the files in it when it is a directory. Read large files in pages with startLine/endLine and a maxTokens budget, following the cursor until truncated is false.',
+    parameters: [
+      { name: 'startLine', in: 'query', description: 'first line to read, starting at 1', schema: { type: 'number' } },
+      { name: 'endLine', in: 'query', description: 'last line to read, included', schema: { type: 'number' } },
+      { name: 'startByte', in: 'query', description: 'UTF-8 byte offset to start reading at', schema: { type: 'number' } },
+      { name: 'endByte', in: 'query', description: 'UTF-8 byte offset to stop reading at, excluded', schema: { type: 'number' } },
+      { name: 'maxTokens', in: 'query', description: 'approximate budget for the content, the page ends at the last whole line that fits', schema: { type: 'number' } },
+      { name: 'maxChars', in: 'query', description: 'budget for the content in characters, instead of maxTokens', schema: { type: 'number' } },
+      { name: 'cursor', in: 'query', description: 'cursor of the previous page, to read the next one', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: { description: 'Successful, an array of file names for a directory', schema: ref('FileSlice') },
+      400: { description: 'Bad request (incorrect parameters, or a range past the end of the file)', schema: ref('Error') },
+      403: responses.forbidden,
+      404: responses.notFound,
+      409: { description: 'The file changed since the cursor was issued', schema: ref('Error') },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'post', path: '/batch/read', operationId: 'batchRead', handler: postBatchRead,
+    validators: [validateBatchRead],
+    summary: 'Read several files, functions (file#function) and line ranges in one call. Items are read in order within one budget; the item that does not fit is cut with a cursor and the rest are listed as omitted. Failing items get their own error.',
+    requestBody: {
+      schema: {
+        type: 'object',
+        properties: {
+          items: arrayOf({
+            oneOf: [
+              { type: 'string', description: 'file, or file#function' },
+              {
+                type: 'object',
+                properties: {
+                  fileName: { type: 'string' },
+                  functionName: { type: 'string' },
+                  startLine: { type: 'number', description: 'first line to read, starting at 1' },
+                  endLine: { type: 'number', description: 'last line to read, included' },
+                },
+                required: ['fileName'],
+              },
+            ],
+          }),
+          maxTokens: { type: 'number', description: 'approximate budget for the contents of all items' },
+          maxChars: { type: 'number', description: 'budget for the contents of all items in characters, instead of maxTokens' },
+        },
+        required: ['items'],
+      },
+      example: { items: ['src/index.ts#getFiles', { fileName: 'src/logger.ts', startLine: 1, endLine: 20 }, 'package.json'], maxTokens: 4000 },
+    },
+    responses: {
+      200: {
+        description: 'Successful, with an error on every item that could not be read',
+        schema: {
+          type: 'object',
+          properties: {
+            items: arrayOf({
+              allOf: [
+                ref('FileSlice'),
+                {
+                  type: 'object',
+                  properties: {
+                    index: { type: 'number', description: 'position of the item in the request' },
+                    functionName: { type: 'string' },
+                    error: { type: 'string', description: 'why the item could not be read, it has no content then' },
+                  },
+                },
+              ],
+            }),
+            omitted: arrayOf({
+              type: 'object',
+              properties: { index: { type: 'number' }, fileName: { type: 'string' }, functionName: { type: 'string' } },
+            }),
+            totalChars: { type: 'number' },
+            maxChars: { type: 'number' },
+            truncated: { type: 'boolean', description: 'the budget ran out, the last item was cut and later ones omitted' },
+          },
+        },
+      },
+      400: responses.badRequest,
+      413: responses.tooLarge,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'post', path: '/run-command', operationId: 'runCommand', handler: runCmd,
+    capability: 'execute', validators: [validateCommand],
+    summary: 'Start a command as a background job. Poll GET /jobs/{id} for its output and exit code. Only commands allowed by the project command policy can run, and they do not run in a shell.',
+    requestBody: {
+      schema: { type: 'object', properties: { command: { type: 'string' } }, required: ['command'] },
+      example: { command: 'npm test' },
+    },
+    responses: {
+      202: {
+        description: 'Job started, the Location header points at the job',
+        schema: { type: 'object', properties: { jobId: { type: 'string' }, status: { type: 'string', enum: ['running'] } } },
+      },
+      400: responses.badRequest,
+      403: {
+        description: 'The command is not allowed by the command policy',
+        schema: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            command: { type: 'string' },
+            rules: {
+              description: 'why each rule for the same executable did not match',
+              ...arrayOf({ type: 'object', properties: { rule: { type: 'string' }, reason: { type: 'string' } } }),
+            },
+          },
+        },
+      },
+      429: { description: 'Too many jobs are running' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/jobs/:id', operationId: 'getJob', handler: getJobStatus,
+    capability: 'execute', validators: [validateJobOffsets],
+    summary: 'Get the status of a command job and its output since the given offsets',
+    parameters: [
+      { name: 'stdoutOffset', in: 'query', schema: { type: 'number' } },
+      { name: 'stderrOffset', in: 'query', schema: { type: 'number' } },
+    ],
+    responses: {
+      200: { description: 'Successful', schema: ref('Job') },
+      400: responses.badRequest,
+      404: { description: 'Not found (no such job)' },
+    },
+  },
+  {
+    method: 'delete', path: '/jobs/:id', operationId: 'cancelJob', handler: deleteJob,
+    capability: 'execute',
+    summary: 'Cancel a running command job',
+    responses: {
+      200: { description: 'Job cancelled', schema: ref('Job') },
+      404: { description: 'Not found (no such job)' },
+    },
+  },
+  {
+    method: 'post', path: '/tests/run', operationId: 'runTests', handler: postTestRun,
+    capability: 'execute', timeout: TEST_TIMEOUT, validators: [validateTestRun],
+    summary: 'Run the project tests with jest and get the status of every suite and test, failure messages with where they were raised, and coverage per file. Runs all tests, or those of one file, matching a name pattern, or related to changed files.',
+    requestBody: {
+      schema: {
+        type: 'object',
+        properties: {
+          fileName: { type: 'string', description: 'a test file, or a source file to run the tests that depend on it' },
+          testNamePattern: { type: 'string', description: 'regular expression matched against the full test names' },
+          changed: { type: 'boolean', description: 'only run the tests related to files changed since the last commit' },
+          coverage: { type: 'boolean', description: 'also collect a coverage summary per file' },
+        },
+      },
+      example: { fileName: 'src/file-utils.ts', testNamePattern: 'sliceFileContent' },
+    },
+    responses: {
+      200: { description: 'The tests ran, whether they passed or not', schema: ref('TestRun') },
+      400: { description: 'Bad request (incorrect parameters, or jest did not report results)', schema: ref('Error') },
+      403: responses.forbidden,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/tests/last', operationId: 'getLastTestRun', handler: getLastTestResults,
+    capability: 'execute',
+    summary: 'Get the results of the last test run again, e.g. after the run outlived the request',
+    responses: {
+      200: { description: 'Successful', schema: ref('TestRun') },
+      404: { description: 'Not found (tests have not run yet)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/git/status', operationId: 'getGitStatus', handler: getGitStatus,
+    summary: 'Get the current branch and the changed and untracked files of the project',
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            branch: { type: 'string', nullable: true },
+            upstream: { type: 'string', nullable: true },
+            ahead: { type: 'number' },
+            behind: { type: 'number' },
+            files: arrayOf({
+              type: 'object',
+              properties: {
+                fileName: { type: 'string' },
+                originalFileName: { type: 'string', description: 'the name before a rename or copy' },
+                staged: { ...gitFileStatus, description: 'change in the index, null when there is none' },
+                unstaged: { ...gitFileStatus, description: 'change in the working tree, null when there is none' },
+              },
+            }),
+          },
+        },
+      },
+      400: { description: 'Bad request (not a git repository)', schema: ref('Error') },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/git/diff', operationId: 'getGitDiff', handler: getGitDiff,
+    validators: [validateGitQuery],
+    summary: 'Get the diff of uncommitted changes, of staged changes, or between two refs, for the whole project or one file',
+    parameters: [
+      { name: 'from', in: 'query', description: 'ref to compare from, e.g. HEAD~3 or main', schema: { type: 'string' } },
+      { name: 'to', in: 'query', description: 'ref to compare to, the working tree when omitted', schema: { type: 'string' } },
+      { name: 'staged', in: 'query', description: 'diff the staged changes against HEAD', schema: { type: 'boolean' } },
+      { name: 'fileName', in: 'query', description: 'only diff this file', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            files: arrayOf({
+              type: 'object',
+              properties: {
+                fileName: { type: 'string' },
+                originalFileName: { type: 'string' },
+                additions: { type: 'number', nullable: true },
+                deletions: { type: 'number', nullable: true },
+              },
+            }),
+            diff: { type: 'string', description: 'unified diff' },
+          },
+        },
+      },
+      400: { description: 'Bad request (invalid ref or not a git repository)', schema: ref('Error') },
+      403: responses.forbidden,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/git/log', operationId: 'getGitLog', handler: getGitLog,
+    validators: [validateGitQuery],
+    summary: 'Get the commit history of the project, of a file, or of a function or range of lines in a file',
+    parameters: [
+      { name: 'fileName', in: 'query', description: 'only commits that changed this file', schema: { type: 'string' } },
+      { name: 'functionName', in: 'query', description: 'only commits that changed this function of fileName', schema: { type: 'string' } },
+      { name: 'startLine', in: 'query', description: 'only commits that changed these lines of fileName', schema: { type: 'number' } },
+      { name: 'endLine', in: 'query', schema: { type: 'number' } },
+      { name: 'ref', in: 'query', description: 'branch, tag or commit to start from, HEAD by default', schema: { type: 'string' } },
+      { name: 'limit', in: 'query', description: 'number of commits, 20 by default, at most 200', schema: { type: 'number' } },
+    ],
+    responses: {
+      200: { description: 'Successful, newest commit first', schema: arrayOf(ref('Commit')) },
+      400: { description: 'Bad request (invalid ref, line range or not a git repository)', schema: ref('Error') },
+      403: responses.forbidden,
+      404: { description: 'Not found (function not found)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/git/blame', operationId: 'getGitBlame', handler: getGitBlame,
+    validators: [validateGitQuery, validateByteRange],
+    summary: 'Get the commit and author that last changed each line of a file, for a range of lines or bytes',
+    parameters: [
+      { name: 'fileName', in: 'query', required: true, schema: { type: 'string' } },
+      { name: 'startLine', in: 'query', schema: { type: 'number' } },
+      { name: 'endLine', in: 'query', schema: { type: 'number' } },
+      { name: 'startByte', in: 'query', description: 'UTF-8 byte offset, alternative to startLine, e.g. the startByte of a function', schema: { type: 'number' } },
+      { name: 'endByte', in: 'query', schema: { type: 'number' } },
+    ],
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            fileName: { type: 'string' },
+            lines: arrayOf({
+              type: 'object',
+              properties: {
+                line: { type: 'number' },
+                commit: { type: 'string' },
+                author: { type: 'string' },
+                date: { type: 'string' },
+                summary: { type: 'string' },
+                content: { type: 'string' },
+              },
+            }),
+          },
+        },
+      },
+      400: { description: 'Bad request (missing fileName, file not committed or line range outside of the file)', schema: ref('Error') },
+      403: responses.forbidden,
+      404: responses.notFound,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'post', path: '/git/commit', operationId: 'gitCommit', handler: postGitCommit,
+    capability: 'write', validators: [validateGitCommit],
+    summary: 'Commit all changes in the project, or only the given files, to checkpoint the work',
+    requestBody: {
+      schema: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+          files: { description: 'only commit these files', ...arrayOf({ type: 'string' }) },
+        },
+        required: ['message'],
+      },
+      example: { message: 'Add input validation to the search endpoint' },
+    },
+    responses: {
+      201: {
+        description: 'Committed, responds with the new commit',
+        schema: { allOf: [ref('Commit'), { type: 'object', properties: { files: arrayOf({ type: 'string' }) } }] },
+      },
+      400: { description: 'Bad request (nothing to commit, or git refused the commit)', schema: ref('Error') },
+      403: responses.forbidden,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/history', operationId: 'getHistory', handler: getHistory,
+    summary: 'List the changes made to files through this plugin, newest first, to find one to revert',
+    parameters: [{ name: 'fileName', in: 'query', description: 'only list the changes of this file', schema: { type: 'string' } }],
+    responses: {
+      200: { description: 'Successful', schema: arrayOf(ref('HistoryEntry')) },
+      403: responses.forbidden,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/history/:id', operationId: 'getHistoryChange', handler: getHistoryChange,
+    validators: [validateHistoryId],
+    summary: 'Get a change made through this plugin, with the file content before and after it',
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          allOf: [ref('HistoryEntry'), {
+            type: 'object',
+            properties: {
+              before: { type: 'string', nullable: true, description: 'null when the change created the file' },
+              after: { type: 'string', nullable: true, description: 'null when the change deleted the file' },
+            },
+          }],
+        },
+      },
+      400: responses.badRequest,
+      404: { description: 'Not found (no such change)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'post', path: '/history/:id/revert', operationId: 'revertChange', handler: postHistoryRevert,
+    capability: 'write', validators: [validateHistoryId],
+    summary: 'Roll back a change made through this plugin, or every change since it with since=true. Fails when a file changed in the meantime.',
+    requestBody: {
+      schema: { type: 'object', properties: { since: { type: 'boolean', description: 'also revert every later change' } } },
+      example: { since: true },
+    },
+    responses: {
+      200: { description: 'Reverted, responds with the changes that recorded the revert', schema: arrayOf(ref('HistoryEntry')) },
+      400: responses.badRequest,
+      404: { description: 'Not found (no such change)' },
+      409: { description: 'A file changed after the change being reverted', schema: ref('Error') },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/dependencies', operationId: 'getDependencies', handler: getDependencies,
+    summary: 'List project dependencies with the package manager of the project',
+    responses: {
+      200: {
+        description: 'Successful execution of the list command of the package manager',
+        schema: {
+          type: 'object',
+          properties: {
+            exitCode: { type: 'number' },
+            stdout: { type: 'string' },
+            stderr: { type: 'string' },
+            packageManager: { type: 'string', enum: ['npm', 'yarn', 'pnpm'] },
+            command: { type: 'string' },
+          },
+        },
+      },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'post', path: '/dependencies', operationId: 'manageDependencies', handler: postDependencies,
+    capability: 'dependencies', capabilityApplies: req => req.body.operation !== 'list',
+    validators: [validateDependencyOperation, validatePackageName],
+    summary: 'List, add, remove or update project dependencies',
+    requestBody: {
+      schema: {
+        type: 'object',
+        properties: {
+          operation: { type: 'string', enum: ['list', 'add', 'remove', 'update'] },
+          packageName: { type: 'string', description: 'required for add, remove and update' },
+          version: { type: 'string', description: 'version or range for add and update' },
+          dev: { type: 'boolean', description: 'add as a devDependency' },
+          workspace: { type: 'string', description: 'name or path of the workspace package to change, the root package by default' },
+        },
+        required: ['operation'],
+      },
+      example: { operation: 'add', packageName: '@types/node', version: '^20.3', dev: true },
+    },
+    responses: {
+      200: {
+        description: 'Successful execution of the package manager command',
+        schema: {
+          type: 'object',
+          properties: {
+            exitCode: { type: 'number' },
+            stdout: { type: 'string' },
+            stderr: { type: 'string' },
+            packageManager: { type: 'string', enum: ['npm', 'yarn', 'pnpm'] },
+            command: { type: 'string' },
+            // not set for list
+            changes: ref('DependencyChanges'),
+          },
+        },
+      },
+      400: responses.badRequest,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/dependencies/manager', operationId: 'getPackageManager', handler: getPackageManager,
+    summary: 'Tell which package manager the project uses, how it was detected, and its workspaces',
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', enum: ['npm', 'yarn', 'pnpm'] },
+            lockfile: { type: 'string', description: 'the lockfile of the package manager, it may not exist yet' },
+            detectedFrom: {
+              type: 'string',
+              enum: ['PKG_MANAGER', 'packageManager', 'lockfile', 'default'],
+              description: 'the PKG_MANAGER environment variable, the packageManager field of package.json, the newest lockfile, or npm when there is none',
+            },
+            lockfiles: arrayOf({ type: 'string' }),
+            workspaces: arrayOf({ type: 'object', properties: { name: { type: 'string' }, path: { type: 'string' } } }),
+          },
+        },
+      },
+      400: responses.badRequest,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/dependencies/outdated', operationId: 'getOutdatedDependencies', handler: getOutdated,
+    summary: 'List the dependencies that are missing, not locked, locked outside of their package.json range, or installed at another version than the lockfile. Works offline, the registry is not asked for newer versions.',
+    parameters: [
+      { name: 'all', in: 'query', description: 'also list the dependencies that are up to date', schema: { type: 'boolean' } },
+    ],
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            lockfile: { type: 'string', nullable: true, description: 'the lockfile that was read, null when there is none' },
+            dependencies: arrayOf({
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string', enum: ['dependencies', 'devDependencies', 'optionalDependencies'] },
+                wanted: { type: 'string', description: 'the range in package.json' },
+                locked: { type: 'string', nullable: true },
+                installed: { type: 'string', nullable: true },
+                status: { type: 'string', enum: ['ok', 'missing', 'unlocked', 'out-of-range', 'behind-lockfile', 'ahead-of-lockfile'] },
+              },
+            }),
+          },
+        },
+      },
+      404: { description: 'Not found (the project has no package.json)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/dependencies/:name/why', operationId: 'whyDependency', handler: getDependencyWhy,
+    validators: [validateDependencyName],
+    summary: 'Tell why a package is a dependency: how package.json declares it and which project files import it',
+    parameters: [
+      { name: 'name', in: 'path', description: 'package name, encode the slash of a scoped name as %2F', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            declared: {
+              type: 'object',
+              nullable: true,
+              properties: { type: { type: 'string' }, wanted: { type: 'string' } },
+            },
+            installed: { type: 'string', nullable: true },
+            importedBy: arrayOf({
+              type: 'object',
+              properties: {
+                fileName: { type: 'string' },
+                specifier: { type: 'string', description: 'the imported module, e.g. lodash/fp' },
+                line: { type: 'number' },
+                kind: { type: 'string', enum: ['import', 'export', 'require', 'dynamic'] },
+                typeOnly: { type: 'boolean' },
+              },
+            }),
+            errors: arrayOf(parseErrorSchema),
+          },
+        },
+      },
+      400: responses.badRequest,
+      404: { description: 'Not found (the project has no package.json)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/imports/graph', operationId: 'getImportGraph', handler: getImports,
+    validators: [validateImportGraph],
+    summary: 'Get the graph of the imports between the files of the project, with the import cycles. Type-only imports are not part of cycles.',
+    parameters: [
+      { name: 'format', in: 'query', description: 'json, or dot for Graphviz', schema: { type: 'string', enum: ['json', 'dot'] } },
+    ],
+    responses: {
+      200: {
+        description: 'Successful, a text/vnd.graphviz document for format=dot',
+        schema: {
+          type: 'object',
+          properties: {
+            files: arrayOf({ type: 'string' }),
+            edges: arrayOf({
+              type: 'object',
+              properties: {
+                from: { type: 'string' },
+                to: { type: 'string' },
+                typeOnly: { type: 'boolean' },
+                cyclic: { type: 'boolean', description: 'both files are part of the same cycle' },
+              },
+            }),
+            cycles: arrayOf(arrayOf({ type: 'string' })),
+            unresolved: arrayOf({
+              type: 'object',
+              properties: { fileName: { type: 'string' }, specifier: { type: 'string' }, line: { type: 'number' } },
+            }),
+            errors: arrayOf(parseErrorSchema),
+          },
+        },
+      },
+      400: responses.badRequest,
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/projects', operationId: 'getProjects', handler: getProjects, global: true,
+    summary: 'List the projects served by the plugin. Every route works on the default project, and on another project under /projects/{projectId}, described by /projects/{projectId}/openapi.yaml.',
+    responses: {
+      200: { description: 'Successful', schema: arrayOf(ref('Project')) },
+    },
+  },
+  {
+    method: 'post', path: '/projects', operationId: 'registerProject', handler: postProject, global: true,
+    capability: 'write', validators: [validateProject],
+    summary: 'Serve a directory under PROJECTS_ROOT as a project, until the server restarts',
+    requestBody: {
+      schema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'letters, digits, dots, dashes and underscores' },
+          root: { type: 'string', description: 'the project directory, relative to PROJECTS_ROOT' },
+          profile: { type: 'string', enum: Object.keys(PROFILES), description: 'the profile of the server by default, it cannot allow more' },
+          deny: arrayOf({ type: 'string', description: 'gitignore-style pattern' }),
+        },
+        required: ['id', 'root'],
+      },
+      example: { id: 'web', root: 'web', profile: 'edit', deny: ['secrets/'] },
+    },
+    responses: {
+      201: { description: 'Project registered', schema: ref('Project') },
+      400: responses.badRequest,
+      403: { description: 'Forbidden (registering is disabled, the root is outside of PROJECTS_ROOT, or the profile allows more than the server)' },
+      409: { description: 'The id or the root is already registered, or the root is inside another project or contains one', schema: ref('Error') },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'get', path: '/projects/:id', operationId: 'getProject', handler: getProjectById, global: true,
+    summary: 'Get a project and its workspace packages',
+    parameters: [{ name: 'id', in: 'path', description: 'the project id', schema: { type: 'string' } }],
+    responses: {
+      200: {
+        description: 'Successful',
+        schema: {
+          allOf: [
+            ref('Project'),
+            { type: 'object', properties: { workspaces: arrayOf({ type: 'object', properties: { name: { type: 'string' }, path: { type: 'string' } } }) } },
+          ],
+        },
+      },
+      404: { description: 'Not found (no such project)' },
+      500: responses.serverError,
+    },
+  },
+  {
+    method: 'delete', path: '/projects/:id', operationId: 'removeProject', handler: deleteProject, global: true,
+    capability: 'write',
+    summary: 'Stop serving a project, its files are left as they are',
+    parameters: [{ name: 'id', in: 'path', description: 'the project id', schema: { type: 'string' } }],
+    responses: {
+      200: { description: 'Project removed', schema: ref('Project') },
+      400: responses.badRequest,
+      404: { description: 'Not found (no such project)' },
+    },
+  },
+]
+
+const app = express()
   .disable('x-powered-by')
-  .use( timeout(TIMEOUT) )
   .use( compression() )
-  .use( express.json({ strict: true }) )
+  .use( express.json({ strict: true, limit: MAX_BODY_SIZE }) )
   .use( extraCors )
   .use( cors({
     credentials: true,
-    origin: [ `http://localhost:${PORT}`, 'https://chat.openai.com' ],
+    origin: [ BASE_URL, 'https://chat.openai.com' ],
   }) )
   .use( morgan('dev') )
   .use( express.static('public') )
-  .all( '/.well-known/ai-plugin.json', aiPluginJson )
-  .get( '/openapi.yaml', openApiYaml )
-  .get( '/files', [ timeout(TIMEOUT) ], getFiles )
-  .post( '/files/*', [ timeout(TIMEOUT), validateFileName ], postNewFile )
-  .get( '/functions', [ timeout(TIMEOUT) ], getAllFunctions )
-  .get( '/files/*/functions/:functionName', [ timeout(TIMEOUT), validateFileName, validateFunctionName ], getFunctionContent )
-  .get( '/files/*/functions', [ timeout(TIMEOUT), validateFileName ], getFunctionsInFile )
-  .get( '/files/*', [ timeout(TIMEOUT), validateFileName ], getFileOrFolderContent )
-  .post( '/run-command', [ timeout(TIMEOUT) ], runCmd )
-  .get( '/dependencies', [ timeout(TIMEOUT) ], getDependencies )
-  .post( '/dependencies', [ timeout(TIMEOUT), validateDependencyOperation, validatePackageName ], postDependencies )
-  .use( handleErrors )
+  .all( '/.well-known/ai-plugin.json', timeout(TIMEOUT), aiPluginJson )
+  .get( '/openapi.yaml', timeout(TIMEOUT), openApiYaml )
+  .get( `${PROJECT_PREFIX}/openapi.yaml`, timeout(TIMEOUT), resolveProject, projectOpenApiYaml )
+  .use( '/oauth', timeout(TIMEOUT) )
+  .use( oauthRouter(AUTH) )
+  // everything below requires a token when authentication is configured
+  .use( authenticate(AUTH) )
+
+// Routes work on the default project, and on any project under /projects/:projectId
+for (const route of routes) {
+  const capability = route.capability ? [ requireCapability(req => req.project.profile, route.capability, route.capabilityApplies) ] : []
+  // one timer per request: the route's own timeout, or the default one
+  const handlers = [ timeout(route.timeout ?? TIMEOUT), resolveProject, ...capability, ...(route.validators ?? []).flat(), validateParams ]
+  app[route.method]( route.path, handlers, route.handler )
+  if (!route.global)
+    app[route.method]( PROJECT_PREFIX + route.path, handlers, route.handler )
+}
+
+app.use( handleErrors )
 
 let server: http.Server
 
@@ -335,10 +2230,14 @@ if (require.main === module) {
   server = app.listen( PORT, HOST, () => {
     console.error(`HTTP Server listening on ${HOST}:${PORT}`)
   })
+  for (const project of listProjects())
+    watchProject(project.root)
 }
 
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server')
+  for (const project of listProjects())
+    stopSymbolIndex(project.root)
   server.close(() => {
     logger.info('HTTP server closed')
   })
@@ -346,6 +2245,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server')
+  for (const project of listProjects())
+    stopSymbolIndex(project.root)
   server.close(() => {
     logger.info('HTTP server closed')
   })
@@ -0,0 +1,308 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { byteOffsetsOf, toCharOffset } from './file-utils';
+import { getIndexedSymbolList } from './symbol-index';
+
+export interface ReferenceRef {
+  startByte: number
+  endByte: number
+  line: number
+  column: number
+  isDefinition: boolean
+}
+
+export interface DefinitionRef {
+  name: string
+  kind: string
+  containerName: string
+  startByte: number
+  endByte: number
+  line: number
+  column: number
+}
+
+export interface FileReferences {
+  fileName: string
+  references: ReferenceRef[]
+}
+
+export interface FileDefinitions {
+  fileName: string
+  definitions: DefinitionRef[]
+}
+
+export interface ProjectService {
+  service: ts.LanguageService
+  // files asked about that are not part of the tsconfig.json project
+  extraFiles: Set<string>
+  options: ts.CompilerOptions
+  fileNames: string[]
+}
+
+const services = new Map<string, ProjectService>()
+
+/**
+ * Reads the tsconfig.json of a project root, or falls back to
+ * all TypeScript and JavaScript files when there is none.
+ *
+ * @param {string} root - The project root.
+ */
+export function readProjectConfig(root: string): ts.ParsedCommandLine {
+  const configPath = ts.findConfigFile(root, ts.sys.fileExists)
+  if (!configPath || path.relative(root, configPath).startsWith('..'))
+    return ts.parseJsonConfigFileContent({ compilerOptions: { allowJs: true }, exclude: ['node_modules', 'dist'] }, ts.sys, root)
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile)
+  if (error)
+    throw new Error(ts.flattenDiagnosticMessageText(error.messageText, '\n'))
+  return ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath)
+}
+
+/**
+ * Returns the language service of a project root, creating it on first use.
+ * The project configuration is re-read on every call so added and removed files
+ * are picked up; unchanged files are not re-parsed since their version is their mtime.
+ *
+ * @param {string} root - The project root.
+ */
+export function getProjectService(root: string): ProjectService {
+  const { options, fileNames } = readProjectConfig(root)
+  const project = services.get(root)
+  if (project) {
+    project.options = options
+    project.fileNames = fileNames
+    return project
+  }
+
+  const created: ProjectService = { options, fileNames, extraFiles: new Set(), service: undefined as unknown as ts.LanguageService }
+  const host: ts.LanguageServiceHost = {
+    getScriptFileNames: () => [...created.fileNames, ...created.extraFiles],
+    getScriptVersion: fileName => {
+      try {
+        return String(fs.statSync(fileName).mtimeMs)
+      } catch (err) {
+        return '0'
+      }
+    },
+    getScriptSnapshot: fileName => {
+      const content = ts.sys.readFile(fileName)
+      return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content)
+    },
+    getCurrentDirectory: () => root,
+    getCompilationSettings: () => created.options,
+    getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+    fileExists: ts.sys.fileExists,
+    readFile: ts.sys.readFile,
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+  }
+  created.service = ts.createLanguageService(host, ts.createDocumentRegistry())
+  services.set(root, created)
+  return created
+}
+
+// Makes sure a file outside of the tsconfig.json project can still be asked about
+export function ensureFile(project: ProjectService, fileName: string) {
+  if (!project.fileNames.includes(fileName))
+    project.extraFiles.add(fileName)
+}
+
+// The byte offsets of a parsed file, computed once for all the references in it
+const byteOffsets = new WeakMap<ts.SourceFile, (offset: number) => number>()
+
+// Converts a span of the language service, in characters, to UTF-8 byte offsets and a 1-based position
+function toRange(program: ts.Program | undefined, fileName: string, span: ts.TextSpan) {
+  const sourceFile = program?.getSourceFile(fileName)
+  const { line, character } = sourceFile?.getLineAndCharacterOfPosition(span.start) ?? { line: 0, character: 0 }
+  let toByte = sourceFile ? byteOffsets.get(sourceFile) : undefined
+  if (sourceFile && !toByte)
+    byteOffsets.set(sourceFile, toByte = byteOffsetsOf(sourceFile.text))
+  return {
+    startByte: toByte ? toByte(span.start) : span.start,
+    endByte: toByte ? toByte(span.start + span.length) : span.start + span.length,
+    line: line + 1,
+    column: character + 1,
+  }
+}
+
+export const isInside = (root: string, fileName: string) => !path.relative(root, fileName).startsWith('..')
+
+/**
+ * Finds the declarations of the symbols with the given plain or qualified name,
+ * as listed by /symbols, with the position of their name for the language service.
+ *
+ * @param {string} root - The project root.
+ * @param {string} name - The symbol name, e.g. `getFileList` or `Class.method`.
+ * @param {string} fileName - Only consider symbols declared in this file, relative to the root.
+ */
+export async function findDeclarations(root: string, name: string, fileName?: string) {
+  const declarations = (await getIndexedSymbolList(root, fileName))
+    .flatMap(file => file.symbols
+      .filter(symbol => symbol.name === name || symbol.qualifiedName === name)
+      .map(symbol => ({ fileName: file.fileName, symbol })))
+  return declarations.map(({ fileName, symbol }) => {
+    // the symbol range covers the whole declaration, the language service wants the character position of its name
+    const content = fs.readFileSync(fileName, 'utf8')
+    const start = toCharOffset(content, symbol.startByte)
+    const declaration = content.substring(start, toCharOffset(content, symbol.endByte))
+    const offset = declaration.search(new RegExp(`(?<![\\w$#])${symbol.name.replace(/[$#]/g, '\\$&')}(?![\\w$])`))
+    return { fileName, symbol, position: start + Math.max(offset, 0) }
+  })
+}
+
+/**
+ * Finds every reference to the symbols with the given plain or qualified name,
+ * as listed by /symbols, using the TypeScript language service.
+ *
+ * @param {string} root - The project root.
+ * @param {string} name - The symbol name, e.g. `getFileList` or `Class.method`.
+ * @param {string} fileName - Only consider symbols declared in this file, relative to the root.
+ * @returns {Promise<FileReferences[]|undefined>} The references grouped by file, or undefined when no such symbol exists.
+ */
+export async function findReferences(root: string, name: string, fileName?: string): Promise<FileReferences[] | undefined> {
+  const declarations = await findDeclarations(root, name, fileName)
+  if (!declarations.length)
+    return
+
+  const project = getProjectService(root)
+  const references = new Map<string, Map<number, ReferenceRef>>()
+  for (const { fileName, position } of declarations) {
+    ensureFile(project, fileName)
+    const program = project.service.getProgram()
+    for (const entry of project.service.findReferences(fileName, position) ?? [])
+      for (const reference of entry.references) {
+        if (!isInside(root, reference.fileName))
+          continue
+        const fileReferences = references.get(reference.fileName) ?? new Map<number, ReferenceRef>()
+        fileReferences.set(reference.textSpan.start, {
+          ...toRange(program, reference.fileName, reference.textSpan),
+          isDefinition: !!reference.isDefinition,
+        })
+        references.set(reference.fileName, fileReferences)
+      }
+  }
+
+  return [...references.entries()].map(([fileName, fileReferences]) => ({
+    fileName,
+    references: [...fileReferences.values()].sort((a, b) => a.startByte - b.startByte),
+  }))
+}
+
+/**
+ * Turns a line and column of a file into a position for the language service.
+ *
+ * @param {ProjectService} project - The language service of the project.
+ * @param {string} fileName - The absolute file name.
+ * @param {number} line - The line, starting at 1.
+ * @param {number} column - The column, starting at 1.
+ * @throws {Error} ENOENT when the file does not exist, ERANGE when the line or column is outside of it.
+ */
+export function toPosition(project: ProjectService, fileName: string, line: number, column: number): number {
+  ensureFile(project, fileName)
+  const sourceFile = project.service.getProgram()?.getSourceFile(fileName)
+  if (!sourceFile)
+    throw Object.assign(new Error(`File not found: ${fileName}`), { code: 'ENOENT' })
+  const lineStarts = sourceFile.getLineStarts()
+  if (!(line >= 1 && line <= lineStarts.length))
+    throw Object.assign(new Error(`Line ${line} is outside of the file`), { code: 'ERANGE' })
+  const lineEnd = line < lineStarts.length ? lineStarts[line] - 1 : sourceFile.text.length
+  if (!(column >= 1 && lineStarts[line - 1] + column - 1 <= lineEnd))
+    throw Object.assign(new Error(`Column ${column} is outside of line ${line}`), { code: 'ERANGE' })
+  return sourceFile.getPositionOfLineAndCharacter(line - 1, column - 1)
+}
+
+/**
+ * Finds where the identifier at a line and column of a file is defined,
+ * using the TypeScript language service. Definitions outside of the root,
+ * like the TypeScript standard library, are left out.
+ *
+ * @param {string} root - The project root.
+ * @param {string} fileName - The absolute file name.
+ * @param {number} line - The line, starting at 1.
+ * @param {number} column - The column, starting at 1.
+ * @returns {FileDefinitions[]} The definitions grouped by file.
+ */
+export function findDefinition(root: string, fileName: string, line: number, column: number): FileDefinitions[] {
+  const project = getProjectService(root)
+  const position = toPosition(project, fileName, line, column)
+  const program = project.service.getProgram()
+
+  const definitions = new Map<string, DefinitionRef[]>()
+  for (const definition of project.service.getDefinitionAtPosition(fileName, position) ?? []) {
+    if (!isInside(root, definition.fileName))
+      continue
+    const fileDefinitions = definitions.get(definition.fileName) ?? []
+    fileDefinitions.push({
+      name: definition.name,
+      kind: definition.kind,
+      // modules are named by their absolute path
+      containerName: definition.containerName.replace(root + path.sep, ''),
+      ...toRange(program, definition.fileName, definition.textSpan),
+    })
+    definitions.set(definition.fileName, fileDefinitions)
+  }
+
+  return [...definitions.entries()].map(([fileName, definitions]) => ({ fileName, definitions }))
+}
+
+export interface DiagnosticRef {
+  fileName?: string
+  line?: number
+  column?: number
+  code: number
+  category: 'error' | 'warning' | 'suggestion' | 'message'
+  message: string
+}
+
+export interface DiagnosticsResult {
+  errorCount: number
+  warningCount: number
+  diagnostics: DiagnosticRef[]
+}
+
+function toDiagnosticRef(diagnostic: ts.Diagnostic): DiagnosticRef {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : undefined
+  return {
+    fileName: diagnostic.file?.fileName,
+    line: position && position.line + 1,
+    column: position && position.character + 1,
+    code: diagnostic.code,
+    category: ts.DiagnosticCategory[diagnostic.category].toLowerCase() as DiagnosticRef['category'],
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  }
+}
+
+/**
+ * Type-checks a project, or a single file of it, against its tsconfig.json
+ * with the in-process TypeScript compiler.
+ *
+ * @param {string} root - The project root.
+ * @param {string} fileName - Optional absolute file name to only check that file.
+ * @returns {DiagnosticsResult} The syntactic and semantic diagnostics.
+ */
+export function getDiagnostics(root: string, fileName?: string): DiagnosticsResult {
+  const project = getProjectService(root)
+  if (fileName)
+    ensureFile(project, fileName)
+  const program = project.service.getProgram()
+  if (fileName && !program?.getSourceFile(fileName))
+    throw Object.assign(new Error(`File not found: ${fileName}`), { code: 'ENOENT' })
+
+  const fileNames = fileName ? [fileName] : project.fileNames
+  const diagnostics = [
+    ...(fileName ? [] : project.service.getCompilerOptionsDiagnostics()),
+    ...fileNames.flatMap(file => [
+      ...project.service.getSyntacticDiagnostics(file),
+      ...project.service.getSemanticDiagnostics(file),
+    ]),
+  ].map(toDiagnosticRef)
+
+  return {
+    errorCount: diagnostics.filter(diagnostic => diagnostic.category === 'error').length,
+    warningCount: diagnostics.filter(diagnostic => diagnostic.category === 'warning').length,
+    diagnostics,
+  }
+}
@@ -0,0 +1,431 @@
+import express from 'express';
+import { allowsRoute, Capability, CapabilityProfile } from './capabilities';
+
+export type Schema = { [key: string]: unknown }
+
+export interface ParameterSpec {
+  name: string
+  in: 'query' | 'path'
+  required?: boolean
+  description?: string
+  schema: Schema
+}
+
+export interface ResponseSpec {
+  description: string
+  schema?: Schema
+}
+
+/**
+ * A route of the API, declared once: it is registered on the express app
+ * and described in the generated OpenAPI document from the same definition.
+ */
+export interface RouteDefinition {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete'
+  // express path, `*` is documented as the fileName path parameter
+  path: string
+  operationId: string
+  summary: string
+  capability?: Capability
+  // whether a request needs the capability at all, e.g. listing dependencies does not
+  capabilityApplies?: (req: express.Request) => boolean
+  // query parameters, and descriptions for path parameters
+  parameters?: ParameterSpec[]
+  requestBody?: { schema: Schema, example?: unknown }
+  responses: { [status: number]: ResponseSpec }
+  // for routes that take longer than the default timeout, e.g. '300000ms'
+  timeout?: string
+  // express-validator chains, their failures are answered with a 400
+  validators?: (express.RequestHandler | express.RequestHandler[])[]
+  // served once for the whole plugin, not for every project under /projects/:projectId
+  global?: boolean
+  handler: express.RequestHandler
+}
+
+export const ref = (name: keyof typeof schemas): Schema => ({ $ref: `#/components/schemas/${name}` })
+
+export const arrayOf = (items: Schema): Schema => ({ type: 'array', items })
+
+const byteRange = {
+  startByte: { type: 'number', description: 'UTF-8 byte offset of the start of the location in the file' },
+  endByte: { type: 'number', description: 'UTF-8 byte offset after the end of the location in the file' },
+}
+
+const position = {
+  line: { type: 'number', description: 'line number, starting at 1' },
+  column: { type: 'number', description: 'column number, starting at 1' },
+}
+
+// Error responses most routes share
+export const responses = {
+  badRequest: { description: 'Bad request (missing or incorrect parameters)', schema: { $ref: '#/components/schemas/Error' } },
+  tooLarge: { description: 'Request body is larger than the configured limit' },
+  forbidden: { description: 'Forbidden (path is outside of the project, gitignored or deny-listed)' },
+  notFound: { description: 'Not found (file not found)' },
+  serverError: { description: 'Internal server error' },
+}
+
+// Shared schemas, referenced from the routes with ref()
+const coverageCounts = {
+  type: 'object',
+  properties: {
+    total: { type: 'number' },
+    covered: { type: 'number' },
+    pct: { type: 'number', description: 'percentage covered' },
+  },
+}
+
+export const schemas = {
+  FunctionRef: {
+    type: 'object',
+    properties: {
+      functionName: { type: 'string', description: 'plain name of the function or method' },
+      qualifiedName: { type: 'string', description: 'name qualified with its containers, e.g. Class.method' },
+      kind: { type: 'string', enum: ['function', 'method'] },
+      exported: { type: 'boolean' },
+      ...position,
+      ...byteRange,
+    },
+  },
+  FileFunctions: {
+    type: 'object',
+    properties: {
+      fileName: { type: 'string' },
+      functions: arrayOf({ $ref: '#/components/schemas/FunctionRef' }),
+      error: { type: 'string', description: 'why the file could not be parsed, its functions are then empty' },
+    },
+  },
+  SymbolRef: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      qualifiedName: { type: 'string', description: 'name qualified with its containers, e.g. Class.method or Namespace.function' },
+      kind: { type: 'string', enum: ['function', 'method', 'class', 'interface', 'type', 'enum', 'namespace'] },
+      exported: { type: 'boolean' },
+      ...position,
+      ...byteRange,
+    },
+  },
+  FileSymbols: {
+    type: 'object',
+    properties: {
+      fileName: { type: 'string' },
+      symbols: arrayOf({ $ref: '#/components/schemas/SymbolRef' }),
+      error: { type: 'string', description: 'why the file could not be parsed, its symbols are then empty' },
+    },
+  },
+  FileSlice: {
+    type: 'object',
+    properties: {
+      fileName: { type: 'string' },
+      content: { type: 'string' },
+      startByte: { type: 'number', description: 'UTF-8 byte offset of the page' },
+      endByte: { type: 'number', description: 'UTF-8 byte offset after the page' },
+      startLine: { type: 'number' },
+      endLine: { type: 'number' },
+      totalLines: { type: 'number' },
+      totalBytes: { type: 'number', description: 'size of the file in bytes' },
+      hash: { type: 'string', description: 'sha256 of the whole content, changes when the file changes' },
+      truncated: { type: 'boolean', description: 'the budget ended the page before the requested range' },
+      cursor: { type: 'string', description: 'pass as cursor to GET /files/{fileName} to read the next page, only when truncated' },
+    },
+  },
+  FunctionData: {
+    type: 'object',
+    properties: {
+      fileName: { type: 'string' },
+      functionName: { type: 'string' },
+      content: {
+        type: 'object',
+        properties: {
+          minimal: { type: 'string', description: 'minimal content for this function' },
+          full: { type: 'string', description: 'full content of function' },
+        },
+      },
+      ...byteRange,
+    },
+  },
+  Diagnostics: {
+    type: 'object',
+    properties: {
+      errorCount: { type: 'number' },
+      warningCount: { type: 'number' },
+      diagnostics: arrayOf({
+        type: 'object',
+        properties: {
+          fileName: { type: 'string' },
+          ...position,
+          code: { type: 'number', description: 'TypeScript error code, e.g. 2322' },
+          category: { type: 'string', enum: ['error', 'warning', 'suggestion', 'message'] },
+          message: { type: 'string' },
+        },
+      }),
+    },
+  },
+  JobOutput: {
+    type: 'object',
+    properties: {
+      offset: { type: 'number' },
+      nextOffset: { type: 'number', description: 'pass as offset in the next poll to only get new output' },
+      data: { type: 'string' },
+      truncated: { type: 'boolean', description: 'older output was dropped because of the retained output limit' },
+    },
+  },
+  Job: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      command: { type: 'string' },
+      status: { type: 'string', enum: ['running', 'exited', 'cancelled', 'failed'] },
+      exitCode: { type: 'number', nullable: true },
+      signal: { type: 'string', nullable: true },
+      startedAt: { type: 'string' },
+      finishedAt: { type: 'string' },
+      stdout: { $ref: '#/components/schemas/JobOutput' },
+      stderr: { $ref: '#/components/schemas/JobOutput' },
+    },
+  },
+  DependencyChanges: {
+    type: 'object',
+    properties: {
+      manifests: arrayOf({
+        type: 'object',
+        properties: {
+          fileName: { type: 'string' },
+          changes: arrayOf({
+            type: 'object',
+            properties: {
+              type: { type: 'string', description: 'dependencies, devDependencies, optionalDependencies or peerDependencies' },
+              name: { type: 'string' },
+              from: { type: 'string', nullable: true, description: 'null when the dependency was added' },
+              to: { type: 'string', nullable: true, description: 'null when the dependency was removed' },
+            },
+          }),
+        },
+      }),
+      lockfile: {
+        type: 'object',
+        properties: {
+          fileName: { type: 'string' },
+          added: arrayOf({ type: 'object', properties: { name: { type: 'string' }, versions: arrayOf({ type: 'string' }) } }),
+          removed: arrayOf({ type: 'object', properties: { name: { type: 'string' }, versions: arrayOf({ type: 'string' }) } }),
+          changed: arrayOf({
+            type: 'object',
+            properties: { name: { type: 'string' }, from: arrayOf({ type: 'string' }), to: arrayOf({ type: 'string' }) },
+          }),
+        },
+      },
+    },
+  },
+  TestRun: {
+    type: 'object',
+    properties: {
+      command: { type: 'string' },
+      exitCode: { type: 'number', nullable: true },
+      success: { type: 'boolean' },
+      startedAt: { type: 'string' },
+      finishedAt: { type: 'string' },
+      numTotalTests: { type: 'number' },
+      numPassedTests: { type: 'number' },
+      numFailedTests: { type: 'number' },
+      numPendingTests: { type: 'number' },
+      numTotalTestSuites: { type: 'number' },
+      numFailedTestSuites: { type: 'number' },
+      suites: arrayOf({
+        type: 'object',
+        properties: {
+          fileName: { type: 'string' },
+          status: { type: 'string', enum: ['passed', 'failed'] },
+          duration: { type: 'number', nullable: true, description: 'milliseconds' },
+          message: { type: 'string', description: 'why the suite failed when none of its tests ran, e.g. a syntax error' },
+          tests: arrayOf({
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'full name, with the names of the describe blocks' },
+              ancestors: arrayOf({ type: 'string' }),
+              status: { type: 'string', enum: ['passed', 'failed', 'pending', 'skipped', 'todo', 'disabled'] },
+              duration: { type: 'number', nullable: true },
+              line: { type: 'number', description: 'where the test is declared' },
+              failures: arrayOf({
+                type: 'object',
+                properties: {
+                  message: { type: 'string' },
+                  fileName: { type: 'string', description: 'where the failure was raised, the first stack frame in the project' },
+                  line: { type: 'number' },
+                  column: { type: 'number' },
+                },
+              }),
+            },
+          }),
+        },
+      }),
+      coverage: {
+        type: 'object',
+        description: 'only when coverage was asked for',
+        properties: {
+          total: { $ref: '#/components/schemas/FileCoverage' },
+          files: arrayOf({ $ref: '#/components/schemas/FileCoverage' }),
+        },
+      },
+    },
+  },
+  FileCoverage: {
+    type: 'object',
+    properties: {
+      fileName: { type: 'string' },
+      lines: coverageCounts,
+      statements: coverageCounts,
+      functions: coverageCounts,
+      branches: coverageCounts,
+    },
+  },
+  Project: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      root: { type: 'string' },
+      profile: { type: 'string' },
+      capabilities: arrayOf({ type: 'string', enum: ['read', 'write', 'execute', 'dependencies'] }),
+      deny: arrayOf({ type: 'string', description: 'gitignore-style pattern denied on top of the global deny list' }),
+      source: { type: 'string', enum: ['environment', 'config', 'api'], description: 'BASE_PATH, PROJECTS_FILE or POST /projects' },
+    },
+  },
+  RefactorResult: {
+    type: 'object',
+    properties: {
+      applied: { type: 'boolean', description: 'false for a dry run' },
+      files: arrayOf({
+        type: 'object',
+        properties: { fileName: { type: 'string' }, created: { type: 'boolean' } },
+      }),
+      diff: { type: 'string', description: 'unified diff of every changed file' },
+      warnings: arrayOf({ type: 'string', description: 'a use that could not be updated automatically' }),
+    },
+  },
+  Commit: {
+    type: 'object',
+    properties: {
+      commit: { type: 'string' },
+      author: { type: 'string' },
+      email: { type: 'string' },
+      date: { type: 'string' },
+      subject: { type: 'string' },
+    },
+  },
+  HistoryEntry: {
+    type: 'object',
+    properties: {
+      id: { type: 'number' },
+      timestamp: { type: 'string' },
+      route: { type: 'string', description: 'the route that made the change, e.g. PATCH /files/*' },
+      fileName: { type: 'string' },
+      revertOf: { type: 'number', description: 'the change this one reverted' },
+      beforeBytes: { type: 'number', nullable: true },
+      afterBytes: { type: 'number', nullable: true },
+    },
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      details: {
+        description: 'the failed checks, when the request is invalid',
+        ...arrayOf({
+          type: 'object',
+          properties: {
+            field: { type: 'string' },
+            location: { type: 'string', enum: ['body', 'params', 'query'] },
+            message: { type: 'string' },
+          },
+        }),
+      },
+    },
+  },
+}
+
+/**
+ * Converts an express path to an OpenAPI path and lists its path parameters.
+ * The `*` wildcard of the file routes becomes `{fileName}`.
+ *
+ * @param {string} expressPath - The express path, e.g. /files/*\/functions/:functionName
+ */
+export function toOpenApiPath(expressPath: string) {
+  const names: string[] = []
+  const openApiPath = expressPath
+    .replace(/\*/g, () => { names.push('fileName'); return '{fileName}' })
+    .replace(/:(\w+)/g, (_, name) => { names.push(name); return `{${name}}` })
+  return { path: openApiPath, names }
+}
+
+function toOperation(route: RouteDefinition, profile: CapabilityProfile) {
+  const { names } = toOpenApiPath(route.path)
+  const pathParameters = names.map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+    ...route.parameters?.find(parameter => parameter.in === 'path' && parameter.name === name),
+  }))
+  const parameters = [...pathParameters, ...(route.parameters ?? []).filter(parameter => parameter.in === 'query')]
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    ...(route.capability && !profile.capabilities.has(route.capability) ? {
+      description: `The ${profile.name} profile does not allow ${route.capability} operations, only the requests that do not need them are served.`,
+    } : {}),
+    ...(parameters.length ? { parameters } : {}),
+    ...(route.requestBody ? {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: route.requestBody.schema, ...(route.requestBody.example ? { example: route.requestBody.example } : {}) } },
+      },
+    } : {}),
+    responses: Object.fromEntries(Object.entries(route.responses).map(([status, response]) => [status, {
+      description: response.description,
+      ...(response.schema ? { content: { 'application/json': { schema: response.schema } } } : {}),
+    }])),
+  }
+}
+
+/**
+ * Generates the OpenAPI document of the routes the profile allows.
+ *
+ * @param {RouteDefinition[]} routes - The routes of the API.
+ * @param {string} serverUrl - The URL the API is served at.
+ * @param {CapabilityProfile} profile - The active profile, other operations are left out.
+ */
+export function buildOpenApi(routes: RouteDefinition[], serverUrl: string, profile: CapabilityProfile) {
+  const paths: { [path: string]: { [method: string]: unknown } } = {}
+  for (const route of routes) {
+    if (!allowsRoute(profile, route.capability ?? 'read', route.capabilityApplies))
+      continue
+    const { path } = toOpenApiPath(route.path)
+    paths[path] = { ...paths[path], [route.method]: toOperation(route, profile) }
+  }
+  return {
+    openapi: '3.0.0',
+    info: { title: 'Code Parser API', version: '1.0.0' },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: { schemas },
+  }
+}
+
+// The parts of an express router layer that tell which route it serves
+interface RouterLayer {
+  route?: { path: string, methods: { [method: string]: boolean } }
+}
+
+/**
+ * Lists the routes registered on an express app, to compare them with the
+ * OpenAPI document.
+ *
+ * @param {express.Application} app - The express app.
+ * @returns The method, in upper case, and express path of every route.
+ */
+export function listRegisteredRoutes(app: express.Application): { method: string, path: string }[] {
+  const router: { stack: RouterLayer[] } | undefined = app._router
+  return (router?.stack ?? []).flatMap(({ route }) =>
+    route ? Object.keys(route.methods).map(method => ({ method: method.toUpperCase(), path: route.path })) : [])
+}
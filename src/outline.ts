@@ -0,0 +1,132 @@
+import { AST_NODE_TYPES, TSESTree } from '@typescript-eslint/typescript-estree';
+import fs from 'fs';
+import { parseFile } from './parsers';
+
+export interface OutlineLine {
+  line: number
+  text: string
+}
+
+// A part of the source replaced by a placeholder in the outline
+interface Collapse {
+  start: number
+  end: number
+  placeholder: string
+}
+
+const isNode = (value: unknown): value is TSESTree.Node =>
+  typeof value === 'object' && value !== null && typeof (value as TSESTree.Node).type === 'string'
+
+function children(node: TSESTree.Node): TSESTree.Node[] {
+  const nodes: TSESTree.Node[] = []
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'parent')
+      continue
+    if (Array.isArray(value))
+      nodes.push(...value.filter(isNode))
+    else if (isNode(value))
+      nodes.push(value)
+  }
+  return nodes
+}
+
+const isMultiline = (node: TSESTree.Node) => node.loc.start.line !== node.loc.end.line
+
+// The placeholder keeps the brackets of collapsed values, so the outline still reads as code
+function placeholderFor(node: TSESTree.Node): string {
+  if (AST_NODE_TYPES.ObjectExpression === node.type)
+    return '{ ... }'
+  if (AST_NODE_TYPES.ArrayExpression === node.type)
+    return '[ ... ]'
+  return '...'
+}
+
+const isFunction = (node: TSESTree.Node | null | undefined) =>
+  AST_NODE_TYPES.FunctionExpression === node?.type || AST_NODE_TYPES.ArrowFunctionExpression === node?.type
+  || AST_NODE_TYPES.ClassExpression === node?.type
+
+/**
+ * Finds the parts of a file that the outline leaves out: every block, like
+ * function and method bodies, and multi-line values of variables and class
+ * properties. Nested parts are covered by their outermost collapse.
+ */
+function findCollapses(node: TSESTree.Node, collapses: Collapse[]) {
+  switch (node.type) {
+    case AST_NODE_TYPES.BlockStatement:
+      return collapses.push({ start: node.range[0], end: node.range[1], placeholder: '{ ... }' })
+    case AST_NODE_TYPES.StaticBlock:
+      return collapses.push({ start: node.range[0], end: node.range[1], placeholder: 'static { ... }' })
+    case AST_NODE_TYPES.ArrowFunctionExpression:
+      // expression bodies, like `() => ({ ... })`
+      if (AST_NODE_TYPES.BlockStatement !== node.body.type && isMultiline(node.body))
+        return collapses.push({ start: node.body.range[0], end: node.body.range[1], placeholder: placeholderFor(node.body) })
+      break
+    case AST_NODE_TYPES.VariableDeclarator:
+      if (node.init && !isFunction(node.init) && isMultiline(node.init))
+        return collapses.push({ start: node.init.range[0], end: node.init.range[1], placeholder: placeholderFor(node.init) })
+      break
+    case AST_NODE_TYPES.PropertyDefinition:
+      if (node.value && !isFunction(node.value) && isMultiline(node.value))
+        return collapses.push({ start: node.value.range[0], end: node.value.range[1], placeholder: placeholderFor(node.value) })
+      break
+  }
+  for (const child of children(node))
+    findCollapses(child, collapses)
+}
+
+/**
+ * Builds the skeleton of a file: imports, types, interfaces and enums in full,
+ * class and function signatures with their comments, and every body collapsed
+ * to `{ ... }`. Every line of the outline keeps its line number in the file.
+ *
+ * @param {string} fileContent - The content of the file.
+ * @param {string} fileName - The file name, its extension picks the parser.
+ * @returns {OutlineLine[]} The lines of the outline, blank lines left out.
+ */
+export function outlineContent(fileContent: string, fileName: string): OutlineLine[] {
+  const ast = parseFile(fileContent, fileName)
+  const collapses: Collapse[] = []
+  findCollapses(ast, collapses)
+  collapses.sort((a, b) => a.start - b.start)
+
+  const lines: OutlineLine[] = []
+  let current: OutlineLine = { line: 1, text: '' }
+  let originalLine = 1
+  const addText = (text: string) => {
+    const [first, ...rest] = text.split('\n')
+    current.text += first
+    for (const part of rest) {
+      lines.push(current)
+      current = { line: ++originalLine, text: part }
+    }
+  }
+
+  let offset = 0
+  for (const collapse of collapses) {
+    addText(fileContent.slice(offset, collapse.start))
+    current.text += collapse.placeholder
+    originalLine += fileContent.slice(collapse.start, collapse.end).split('\n').length - 1
+    offset = collapse.end
+  }
+  addText(fileContent.slice(offset))
+  lines.push(current)
+
+  return lines
+    .map(({ line, text }) => ({ line, text: text.replace(/\s+$/, '') }))
+    .filter(({ text }) => text.trim())
+}
+
+/**
+ * Reads a file and builds its outline, as text with the line number in front of each line.
+ *
+ * @param {string} filePath - The file.
+ */
+export async function getOutline(filePath: string) {
+  const fileContent = await fs.promises.readFile(filePath, 'utf8')
+  const lines = outlineContent(fileContent, filePath)
+  const width = String(lines.length ? lines[lines.length - 1].line : 1).length
+  return {
+    totalLines: fileContent.split('\n').length - (fileContent.endsWith('\n') ? 1 : 0),
+    outline: lines.map(({ line, text }) => `${String(line).padStart(width)}| ${text}`).join('\n'),
+  }
+}
@@ -0,0 +1,410 @@
+import fs from 'fs';
+import yaml from 'js-yaml';
+import path from 'path';
+import { getFileList } from './file-utils';
+
+export type PackageManagerName = 'npm' | 'yarn' | 'pnpm'
+
+export interface DependencyChangeOptions {
+  // save to devDependencies, for add
+  dev?: boolean
+  // the workspace package to change, by name, the root package when omitted
+  workspace?: string
+}
+
+/**
+ * Builds the commands of one package manager and reads its lockfile.
+ * Commands are argument lists, the first one is the executable.
+ */
+export interface PackageManager {
+  name: PackageManagerName
+  lockfile: string
+  list(options: DependencyChangeOptions): string[]
+  add(spec: string, options: DependencyChangeOptions): string[]
+  remove(packageName: string, options: DependencyChangeOptions): string[]
+  update(spec: string, options: DependencyChangeOptions): string[]
+  // every locked package with its versions, transitive ones included
+  readLockfile(content: string): Map<string, string[]>
+  // the locked versions of the root package's direct dependencies, by the range they are declared with
+  readLockedVersions(content: string, wanted: Map<string, string>): Map<string, string>
+}
+
+export interface Workspace {
+  name: string
+  // relative to the project root
+  path: string
+}
+
+export interface DetectedPackageManager {
+  manager: PackageManager
+  // what decided the manager
+  detectedFrom: 'PKG_MANAGER' | 'packageManager' | 'lockfile' | 'default'
+  // every lockfile in the project, more than one makes the detection a guess
+  lockfiles: string[]
+}
+
+const addToMap = (map: Map<string, string[]>, name: string, version: string) => {
+  const versions = map.get(name) ?? []
+  if (!versions.includes(version))
+    map.set(name, [...versions, version])
+}
+
+// The parts of package-lock.json read here, v1 nests dependencies by name
+interface NpmLockEntry {
+  version?: string
+  dependencies?: { [name: string]: NpmLockEntry }
+}
+
+interface NpmLockfile {
+  packages?: { [key: string]: NpmLockEntry }
+  dependencies?: { [name: string]: NpmLockEntry }
+}
+
+// npm: lockfile v2 and v3 list packages by their node_modules path, v1 nests them by name
+const npm: PackageManager = {
+  name: 'npm',
+  lockfile: 'package-lock.json',
+  list: ({ workspace }) => ['npm', 'ls', '--depth=0', ...(workspace ? [`--workspace=${workspace}`] : [])],
+  add: (spec, { dev, workspace }) => ['npm', 'install', ...(dev ? ['--save-dev'] : []), ...(workspace ? [`--workspace=${workspace}`] : []), spec],
+  remove: (packageName, { workspace }) => ['npm', 'uninstall', ...(workspace ? [`--workspace=${workspace}`] : []), packageName],
+  // npm update ignores versions, installing the version updates the range too
+  update: (spec, { workspace }) => ['npm', spec.lastIndexOf('@') > 0 ? 'install' : 'update', ...(workspace ? [`--workspace=${workspace}`] : []), spec],
+  readLockfile: content => {
+    const lock: NpmLockfile = JSON.parse(content)
+    const packages = new Map<string, string[]>()
+    for (const [key, entry] of Object.entries(lock.packages ?? {}))
+      if (key.includes('node_modules/') && entry.version)
+        addToMap(packages, key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length), entry.version)
+    const walk = (dependencies: NpmLockEntry['dependencies'] = {}) => {
+      for (const [name, entry] of Object.entries(dependencies)) {
+        if (entry.version)
+          addToMap(packages, name, entry.version)
+        walk(entry.dependencies)
+      }
+    }
+    if (!lock.packages)
+      walk(lock.dependencies)
+    return packages
+  },
+  readLockedVersions: (content, wanted) => {
+    const lock: NpmLockfile = JSON.parse(content)
+    const versions = new Map<string, string>()
+    for (const name of wanted.keys()) {
+      const version = lock.packages?.[`node_modules/${name}`]?.version ?? lock.dependencies?.[name]?.version
+      if (version)
+        versions.set(name, version)
+    }
+    return versions
+  },
+}
+
+/**
+ * Reads the entries of a yarn lockfile, classic (`version "1.2.3"`) or berry
+ * (`version: 1.2.3`). Entries are keyed by their selectors, e.g.
+ * `"name@^1.0.0", "name@^1.1.0":`, and berry adds a protocol like `npm:`.
+ */
+function readYarnEntries(content: string): { selectors: string[], version: string }[] {
+  const entries = []
+  let selectors: string[] = []
+  for (const line of content.split('\n')) {
+    if (line && !line.startsWith(' ') && !line.startsWith('#') && line.endsWith(':')) {
+      selectors = line.slice(0, -1).split(/,\s*/).map(selector => selector.replace(/^"|"$/g, ''))
+      continue
+    }
+    const version = /^\s{2}version:?\s+"?([^"\s]+)"?/.exec(line)?.[1]
+    if (version && selectors.length)
+      entries.push({ selectors, version })
+  }
+  return entries
+}
+
+// The package of a yarn selector, `@scope/name@npm:^1.0.0` is @scope/name
+const selectorPackage = (selector: string) => selector.slice(0, selector.indexOf('@', 1))
+
+// yarn berry is told apart by its .yarnrc.yml, its update command is `up`
+const yarn = (berry: boolean): PackageManager => ({
+  name: 'yarn',
+  lockfile: 'yarn.lock',
+  list: ({ workspace }) => [
+    'yarn',
+    ...(workspace ? ['workspace', workspace] : []),
+    ...(berry ? ['info', '--name-only'] : ['list', '--depth=0']),
+  ],
+  add: (spec, { dev, workspace }) => ['yarn', ...(workspace ? ['workspace', workspace] : []), 'add', ...(dev ? ['--dev'] : []), spec],
+  remove: (packageName, { workspace }) => ['yarn', ...(workspace ? ['workspace', workspace] : []), 'remove', packageName],
+  update: (spec, { workspace }) => ['yarn', ...(workspace ? ['workspace', workspace] : []), berry ? 'up' : 'upgrade', spec],
+  readLockfile: content => {
+    const packages = new Map<string, string[]>()
+    for (const { selectors, version } of readYarnEntries(content))
+      addToMap(packages, selectorPackage(selectors[0]), version)
+    return packages
+  },
+  readLockedVersions: (content, wanted) => {
+    const versions = new Map<string, string>()
+    for (const { selectors, version } of readYarnEntries(content))
+      for (const [name, range] of wanted)
+        if (selectors.includes(`${name}@${range}`) || selectors.includes(`${name}@npm:${range}`))
+          versions.set(name, version)
+    return versions
+  },
+})
+
+// The name and version of a pnpm package key: /name@1.0.0 (v6), name@1.0.0 (v9) or /name/1.0.0 (v5)
+function parsePnpmKey(key: string) {
+  const match = /^\/?((?:@[^/]+\/)?[^/@]+)[@/]([^(/_]+)/.exec(key)
+  return match ? { name: match[1], version: match[2] } : undefined
+}
+
+// The parts of pnpm-lock.yaml read here, v6 and later give { specifier, version } per dependency, v5 the version alone
+type PnpmDependencies = { [name: string]: string | { specifier?: string, version?: string } }
+
+interface PnpmImporter {
+  dependencies?: PnpmDependencies
+  devDependencies?: PnpmDependencies
+  optionalDependencies?: PnpmDependencies
+}
+
+interface PnpmLockfile extends PnpmImporter {
+  importers?: { [path: string]: PnpmImporter }
+  packages?: { [key: string]: unknown }
+}
+
+const pnpm: PackageManager = {
+  name: 'pnpm',
+  lockfile: 'pnpm-lock.yaml',
+  list: ({ workspace }) => ['pnpm', ...(workspace ? ['--filter', workspace] : []), 'list', '--depth=0'],
+  add: (spec, { dev, workspace }) => ['pnpm', ...(workspace ? ['--filter', workspace] : []), 'add', ...(dev ? ['--save-dev'] : []), spec],
+  remove: (packageName, { workspace }) => ['pnpm', ...(workspace ? ['--filter', workspace] : []), 'remove', packageName],
+  update: (spec, { workspace }) => ['pnpm', ...(workspace ? ['--filter', workspace] : []), 'update', spec],
+  readLockfile: content => {
+    const lock = yaml.load(content) as PnpmLockfile | undefined
+    const packages = new Map<string, string[]>()
+    for (const key of Object.keys(lock?.packages ?? {})) {
+      const parsed = parsePnpmKey(key)
+      if (parsed)
+        addToMap(packages, parsed.name, parsed.version)
+    }
+    return packages
+  },
+  readLockedVersions: (content, wanted) => {
+    const lock = yaml.load(content) as PnpmLockfile | undefined
+    // lockfile v6 and later list the root package as an importer, v5 at the top
+    const importer: PnpmImporter = lock?.importers?.['.'] ?? lock ?? {}
+    const versions = new Map<string, string>()
+    for (const name of wanted.keys()) {
+      for (const type of ['dependencies', 'devDependencies', 'optionalDependencies'] as const) {
+        const entry = importer[type]?.[name]
+        // both may carry peer suffixes
+        const version = typeof entry === 'object' ? entry.version : entry
+        if (typeof version === 'string')
+          versions.set(name, version.replace(/\(.*$/, '').replace(/_.*$/, ''))
+      }
+    }
+    return versions
+  },
+}
+
+const LOCKFILES: [string, PackageManagerName][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+]
+
+const readJson = async (filePath: string) => JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+
+type FoundLockfile = { lockfile: string, name: PackageManagerName, mtimeMs: number }
+
+function managerFor(root: string, name: PackageManagerName, found: FoundLockfile[]): PackageManager {
+  const manager = name === 'yarn' ? yarn(fs.existsSync(path.join(root, '.yarnrc.yml'))) : name === 'pnpm' ? pnpm : npm
+  // npm projects may lock with npm-shrinkwrap.json instead
+  const lockfile = found.find(entry => entry.name === name)?.lockfile
+  return lockfile ? { ...manager, lockfile } : manager
+}
+
+const isManagerName = (name: unknown): name is PackageManagerName => name === 'npm' || name === 'yarn' || name === 'pnpm'
+
+/**
+ * Finds the package manager of a project: PKG_MANAGER when it is set, else the
+ * `packageManager` field of package.json (e.g. `pnpm@8.6.0`), else the lockfile,
+ * the most recently changed one when there are several, else npm.
+ *
+ * @param {string} root - The project root.
+ */
+export async function detectPackageManager(root: string): Promise<DetectedPackageManager> {
+  const found: FoundLockfile[] = []
+  for (const [lockfile, name] of LOCKFILES) {
+    const stat = await fs.promises.stat(path.join(root, lockfile)).catch(() => undefined)
+    if (stat)
+      found.push({ lockfile, name, mtimeMs: stat.mtimeMs })
+  }
+  const lockfiles = found.map(({ lockfile }) => lockfile)
+  found.sort((a, b) => b.mtimeMs - a.mtimeMs)
+
+  const configured = process.env.PKG_MANAGER
+  if (configured) {
+    if (!isManagerName(configured))
+      throw Object.assign(new Error(`Unknown PKG_MANAGER ${configured}, expected npm, yarn or pnpm`), { code: 'EINVAL' })
+    return { manager: managerFor(root, configured, found), detectedFrom: 'PKG_MANAGER', lockfiles }
+  }
+
+  const field = await readJson(path.join(root, 'package.json')).then(manifest => manifest.packageManager, () => undefined)
+  const [fieldName, fieldVersion] = typeof field === 'string' ? field.split('@') : []
+  if (isManagerName(fieldName)) {
+    // yarn 2 and later, declared as yarn@3.6.0, is berry even before .yarnrc.yml exists
+    const manager = fieldName === 'yarn' && parseInt(fieldVersion) >= 2
+      ? { ...yarn(true), lockfile: 'yarn.lock' }
+      : managerFor(root, fieldName, found)
+    return { manager, detectedFrom: 'packageManager', lockfiles }
+  }
+
+  if (found.length)
+    return { manager: managerFor(root, found[0].name, found), detectedFrom: 'lockfile', lockfiles }
+  return { manager: npm, detectedFrom: 'default', lockfiles }
+}
+
+// Workspace patterns are globs over directories, like packages/* or apps/**
+function globToRegExp(pattern: string) {
+  const source = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split('/')
+    .map(segment => segment === '**' ? '.*' : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+    .join('/')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Lists the workspace packages of a project, from the `workspaces` field of
+ * package.json or, for pnpm, from pnpm-workspace.yaml.
+ *
+ * @param {string} root - The project root.
+ */
+export async function listWorkspaces(root: string): Promise<Workspace[]> {
+  const manifest = await readJson(path.join(root, 'package.json')).catch(() => ({}))
+  const pnpmWorkspace = await fs.promises.readFile(path.join(root, 'pnpm-workspace.yaml'), 'utf8')
+    .then(content => yaml.load(content) as { packages?: string[] } | undefined, () => undefined)
+  const patterns: string[] = pnpmWorkspace?.packages
+    ?? (Array.isArray(manifest.workspaces) ? manifest.workspaces : manifest.workspaces?.packages)
+    ?? []
+  if (!patterns.length)
+    return []
+
+  const included = patterns.filter(pattern => !pattern.startsWith('!')).map(globToRegExp)
+  const excluded = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => globToRegExp(pattern.slice(1)))
+  const workspaces: Workspace[] = []
+  for (const file of await getFileList(root, root)) {
+    const directory = path.relative(root, path.dirname(file)).split(path.sep).join('/')
+    if (path.basename(file) !== 'package.json' || !directory)
+      continue
+    if (!included.some(pattern => pattern.test(directory)) || excluded.some(pattern => pattern.test(directory)))
+      continue
+    const name = await readJson(file).then(workspace => workspace.name, () => undefined)
+    if (name)
+      workspaces.push({ name, path: directory })
+  }
+  return workspaces
+}
+
+/**
+ * Finds a workspace package by its name or its path.
+ *
+ * @param {string} root - The project root.
+ * @param {string} workspace - The name or the path of the workspace.
+ * @throws {Error} EINVAL when the project has no such workspace.
+ */
+export async function findWorkspace(root: string, workspace: string): Promise<Workspace> {
+  const workspaces = await listWorkspaces(root)
+  const found = workspaces.find(candidate => candidate.name === workspace || candidate.path === workspace.replace(/^\.\//, '').replace(/\/+$/, ''))
+  if (!found)
+    throw Object.assign(new Error(workspaces.length
+      ? `Unknown workspace ${workspace}, expected one of ${workspaces.map(({ name }) => name).join(', ')}`
+      : 'The project has no workspaces'), { code: 'EINVAL' })
+  return found
+}
+
+const DEPENDENCY_TYPES = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies']
+
+export interface DependencySnapshot {
+  // dependency ranges by package.json, by dependency type and name
+  manifests: Map<string, Record<string, Record<string, string>>>
+  lockfile: string
+  packages: Map<string, string[]>
+}
+
+export interface ManifestChange {
+  type: string
+  name: string
+  // null when the dependency was added or removed
+  from: string | null
+  to: string | null
+}
+
+export interface DependencyChanges {
+  manifests: { fileName: string, changes: ManifestChange[] }[]
+  lockfile: {
+    fileName: string
+    added: { name: string, versions: string[] }[]
+    removed: { name: string, versions: string[] }[]
+    changed: { name: string, from: string[], to: string[] }[]
+  }
+}
+
+/**
+ * Records the dependencies of package.json files and the packages of the lockfile,
+ * to compare them after a package manager command with diffDependencies.
+ *
+ * @param {string} root - The project root.
+ * @param {PackageManager} manager - The package manager, it tells which lockfile to read.
+ * @param {string[]} manifests - The package.json files, relative to the root.
+ */
+export async function snapshotDependencies(root: string, manager: PackageManager, manifests: string[]): Promise<DependencySnapshot> {
+  const snapshot: DependencySnapshot = { manifests: new Map(), lockfile: manager.lockfile, packages: new Map() }
+  for (const fileName of manifests) {
+    const manifest = await readJson(path.join(root, fileName)).catch(() => ({}))
+    snapshot.manifests.set(fileName, Object.fromEntries(DEPENDENCY_TYPES.map(type => [type, manifest[type] ?? {}])))
+  }
+  const lockfile = await fs.promises.readFile(path.join(root, manager.lockfile), 'utf8').catch(() => undefined)
+  if (lockfile !== undefined)
+    snapshot.packages = manager.readLockfile(lockfile)
+  return snapshot
+}
+
+const sameVersions = (a: string[], b: string[]) => a.length === b.length && a.every(version => b.includes(version))
+
+/**
+ * Compares two snapshots: the dependencies added, removed or changed in every
+ * package.json, and the packages whose locked versions changed.
+ *
+ * @param {DependencySnapshot} before - The snapshot taken before the command.
+ * @param {DependencySnapshot} after - The snapshot taken after it.
+ */
+export function diffDependencies(before: DependencySnapshot, after: DependencySnapshot): DependencyChanges {
+  const manifests = []
+  for (const [fileName, afterTypes] of after.manifests) {
+    const beforeTypes = before.manifests.get(fileName) ?? {}
+    const changes: ManifestChange[] = []
+    for (const type of DEPENDENCY_TYPES) {
+      const from = beforeTypes[type] ?? {}
+      const to = afterTypes[type] ?? {}
+      for (const name of new Set([...Object.keys(from), ...Object.keys(to)]))
+        if (from[name] !== to[name])
+          changes.push({ type, name, from: from[name] ?? null, to: to[name] ?? null })
+    }
+    if (changes.length)
+      manifests.push({ fileName, changes })
+  }
+
+  const lockfile: DependencyChanges['lockfile'] = { fileName: after.lockfile, added: [], removed: [], changed: [] }
+  for (const [name, versions] of after.packages) {
+    const previous = before.packages.get(name)
+    if (!previous)
+      lockfile.added.push({ name, versions })
+    else if (!sameVersions(previous, versions))
+      lockfile.changed.push({ name, from: previous, to: versions })
+  }
+  for (const [name, versions] of before.packages)
+    if (!after.packages.has(name))
+      lockfile.removed.push({ name, versions })
+  return { manifests, lockfile }
+}
@@ -0,0 +1,134 @@
+import { AST, parse } from '@typescript-eslint/typescript-estree';
+import path from 'path';
+import { findSymbolsInFile, SymbolRef } from './symbol-utils';
+
+export type EstreeAST = AST<{ range: true, loc: true }>
+
+/**
+ * Parses the files of one language. Every parser finds symbols; parsers that
+ * produce an ESTree AST also support reading and writing functions and outlines.
+ * A language without an ESTree parser, such as Python through a bundled grammar,
+ * only implements `findSymbols`.
+ */
+export interface LanguageParser {
+  name: string
+  // file extensions, with the dot
+  extensions: string[]
+  // The symbols declared in a file, offsets are UTF-8 byte offsets into the whole content
+  findSymbols(content: string, fileName: string): SymbolRef[]
+  // Parses a file to an ESTree AST, offsets are into the whole content
+  parseEstree?(content: string, fileName: string): EstreeAST
+}
+
+const parsers = new Map<string, LanguageParser>()
+
+/**
+ * Registers a parser for its file extensions, replacing earlier parsers for the same extensions.
+ *
+ * @param {LanguageParser} parser - The parser.
+ */
+export function registerParser(parser: LanguageParser) {
+  for (const extension of parser.extensions)
+    parsers.set(extension.toLowerCase(), parser)
+}
+
+/**
+ * Finds the parser for a file by its extension.
+ *
+ * @param {string} fileName - The file name or path.
+ */
+export function getParser(fileName: string): LanguageParser | undefined {
+  return parsers.get(path.extname(fileName).toLowerCase())
+}
+
+export const isParsableFile = (fileName: string) => !!getParser(fileName)
+
+/**
+ * Parses a file to an ESTree AST with the parser of its extension.
+ *
+ * @param {string} content - The content of the file.
+ * @param {string} fileName - The file name or path, its extension picks the parser.
+ * @throws {Error} EINVAL when no parser for the extension produces an ESTree AST, TSError on syntax errors.
+ */
+export function parseFile(content: string, fileName: string): EstreeAST {
+  const parser = getParser(fileName)
+  if (!parser?.parseEstree)
+    throw Object.assign(new Error(`Functions in ${path.extname(fileName) || 'extensionless'} files are not supported`), { code: 'EINVAL' })
+  return parser.parseEstree(content, fileName)
+}
+
+/**
+ * Finds the symbols of a file with the parser of its extension.
+ *
+ * @param {string} content - The content of the file.
+ * @param {string} fileName - The file name or path, its extension picks the parser.
+ */
+export function findSymbols(content: string, fileName: string): SymbolRef[] {
+  const parser = getParser(fileName)
+  if (!parser)
+    throw Object.assign(new Error(`No parser for ${path.extname(fileName) || 'extensionless'} files`), { code: 'EINVAL' })
+  return parser.findSymbols(content, fileName)
+}
+
+/**
+ * Describes a parse failure in one line, with its position when the parser gives one.
+ *
+ * @param {unknown} err - The error thrown by a parser.
+ */
+export function describeParseError(err: unknown): string {
+  if (!(err instanceof Error))
+    return `${err}`
+  // typescript-estree errors tell where the parse failed
+  const { lineNumber, column } = err as Error & { lineNumber?: number, column?: number }
+  if (typeof lineNumber === 'number')
+    return `${err.message} (line ${lineNumber}, column ${(column ?? 0) + 1})`
+  return err.message
+}
+
+// A parser built on typescript-estree, for TypeScript and JavaScript flavours
+function estreeParser(name: string, extensions: string[], jsx: boolean): LanguageParser {
+  const parseEstree = (content: string) => parse(content, { range: true, loc: true, jsx })
+  return {
+    name,
+    extensions,
+    parseEstree,
+    findSymbols: content => findSymbolsInFile(parseEstree(content), content),
+  }
+}
+
+/**
+ * Blanks out everything outside of the <script> blocks of a component file,
+ * keeping newlines, so offsets and line numbers of the scripts stay those of the file.
+ *
+ * @param {string} content - The content of a .vue or .svelte file.
+ */
+export function maskScriptBlocks(content: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ')
+  let masked = ''
+  let offset = 0
+  for (const match of content.matchAll(/(<script\b[^>]*>)([\s\S]*?)<\/script\s*>/gi)) {
+    const scriptStart = (match.index ?? 0) + match[1].length
+    masked += blank(content.slice(offset, scriptStart)) + match[2]
+    offset = scriptStart + match[2].length
+  }
+  return masked + blank(content.slice(offset))
+}
+
+// Component files may mix TypeScript and JavaScript blocks, TypeScript parses both
+const componentParser = (name: string, extensions: string[]): LanguageParser => {
+  const isTypeScript = (content: string) => /<script\b[^>]*\blang=["']?(ts|tsx|typescript)\b/i.test(content)
+  const parseEstree = (content: string) =>
+    parse(maskScriptBlocks(content), { range: true, loc: true, jsx: !isTypeScript(content) || /lang=["']?tsx/i.test(content) })
+  return {
+    name,
+    extensions,
+    parseEstree,
+    findSymbols: content => findSymbolsInFile(parseEstree(content), content),
+  }
+}
+
+registerParser(estreeParser('typescript', ['.ts', '.mts', '.cts'], false))
+registerParser(estreeParser('tsx', ['.tsx'], true))
+registerParser(estreeParser('javascript', ['.js', '.mjs', '.cjs', '.jsx'], true))
+registerParser(componentParser('vue', ['.vue']))
+registerParser(componentParser('svelte', ['.svelte']))
@@ -0,0 +1,386 @@
+export interface SearchReplaceHunk {
+  search: string
+  replace: string
+}
+
+// Where a hunk landed in the new content, in UTF-8 bytes
+export interface PatchRange {
+  startByte: number
+  endByte: number
+}
+
+export interface PatchResult {
+  content: string
+  ranges: PatchRange[]
+}
+
+interface DiffHunk {
+  oldStart: number
+  oldLines: string[]
+  newLines: string[]
+  // `\ No newline at end of file` followed the last old or new line
+  oldNoEol: boolean
+  newNoEol: boolean
+}
+
+// A located hunk: replace content[start, end) with replacement
+export interface Edit {
+  start: number
+  end: number
+  replacement: string
+}
+
+/**
+ * Raised when a hunk does not match the current content of the file.
+ * Carries enough context for the client to see why the hunk was rejected.
+ */
+export class PatchConflictError extends Error {
+  code = 'ECONFLICT'
+
+  constructor(
+    message: string,
+    public hunk: number,
+    public expected: string,
+    public actual: string | null,
+    public line?: number,
+  ) {
+    super(message)
+  }
+}
+
+// Malformed patches are a client error, not a conflict
+const malformedPatch = (message: string) => Object.assign(new Error(message), { code: 'EBADPATCH' })
+
+const CONTEXT_LINES = 3
+
+// Splits content into lines, keeping the line terminators attached
+function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? []
+}
+
+const stripEol = (line: string) => line.replace(/\r?\n$/, '')
+
+/**
+ * Parses a unified diff into hunks. The file headers (`diff --git`, `---`, `+++`)
+ * are skipped, since the target file is taken from the request path, and a diff
+ * with the headers of a second file is refused. Hunks hold the number of lines
+ * their header counts, so a removed line starting with `--` is not taken for a
+ * header; lines beyond the count are still read, headers often count wrong.
+ *
+ * @param {string} diff - The unified diff text.
+ * @returns {DiffHunk[]} The parsed hunks.
+ */
+function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let current: DiffHunk | undefined
+  // lines the header of the current hunk still counts, on each side
+  let oldLeft = 0
+  let newLeft = 0
+  let files = 0
+  // a file header was read and no hunk since, `diff --git` comes with `---` and `+++`
+  let inFileHeader = false
+  let previous: string | undefined
+
+  const lines = diff.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const isFileHeader = line.startsWith('diff --git ') || (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))
+    if (isFileHeader && oldLeft <= 0 && newLeft <= 0) {
+      if (!inFileHeader && ++files > 1)
+        throw malformedPatch('The diff changes more than one file, send one diff per file')
+      inFileHeader = true
+      current = undefined
+      if (line.startsWith('--- '))
+        i++
+      continue
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/)
+    if (header) {
+      current = { oldStart: +header[1], oldLines: [], newLines: [], oldNoEol: false, newNoEol: false }
+      hunks.push(current)
+      oldLeft = +(header[2] ?? 1)
+      newLeft = +(header[3] ?? 1)
+      inFileHeader = false
+      previous = undefined
+      continue
+    }
+    if (!current)
+      continue
+    if (line.startsWith('\\')) {
+      // the marker is about the line before it
+      if (previous === '-' || previous === ' ')
+        current.oldNoEol = true
+      if (previous === '+' || previous === ' ')
+        current.newNoEol = true
+      continue
+    }
+    if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1))
+      oldLeft--
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1))
+      newLeft--
+    } else if (line.startsWith(' ') || line === '') {
+      current.oldLines.push(line.slice(1))
+      current.newLines.push(line.slice(1))
+      oldLeft--
+      newLeft--
+    } else
+      continue
+    previous = line[0] ?? ' '
+  }
+
+  // a trailing newline at the end of the diff produces an extra empty context line
+  for (const hunk of hunks)
+    while (hunk.oldLines.length && hunk.newLines.length
+      && hunk.oldLines[hunk.oldLines.length - 1] === '' && hunk.newLines[hunk.newLines.length - 1] === '')
+    {
+      hunk.oldLines.pop()
+      hunk.newLines.pop()
+    }
+
+  if (!hunks.length)
+    throw malformedPatch('No hunks found in diff')
+  return hunks
+}
+
+// Applies non-overlapping edits in one pass and reports where each one landed, in UTF-8 bytes
+export function applyEdits(content: string, edits: Edit[]): PatchResult {
+  // an insertion goes before a replacement starting at the same offset
+  const order = edits.map((_, i) => i).sort((a, b) => edits[a].start - edits[b].start || edits[a].end - edits[b].end)
+  const ranges: PatchRange[] = new Array(edits.length)
+  let result = ''
+  let resultBytes = 0
+  let cursor = 0
+
+  for (const i of order) {
+    const edit = edits[i]
+    if (edit.start < cursor)
+      throw new PatchConflictError('Hunk overlaps a previous hunk', i, content.substring(edit.start, edit.end), null)
+    const unchanged = content.substring(cursor, edit.start)
+    result += unchanged
+    resultBytes += Buffer.byteLength(unchanged)
+    const replacementBytes = Buffer.byteLength(edit.replacement)
+    ranges[i] = { startByte: resultBytes, endByte: resultBytes + replacementBytes }
+    result += edit.replacement
+    resultBytes += replacementBytes
+    cursor = edit.end
+  }
+
+  return { content: result + content.substring(cursor), ranges }
+}
+
+function matchesAt(lines: string[], expected: string[], index: number): boolean {
+  if (index < 0 || index + expected.length > lines.length)
+    return false
+  return expected.every((line, i) => stripEol(lines[index + i]) === line)
+}
+
+/**
+ * Applies a unified diff to the given content.
+ * Each hunk is first checked at the line number from its header; when the
+ * file has shifted, the nearest exact match of the hunk context is used.
+ *
+ * @param {string} content - The current file content.
+ * @param {string} diff - The unified diff to apply.
+ * @returns {PatchResult} The new content and the byte range of every hunk in it.
+ * @throws {Error} EBADPATCH when the diff has no hunks or changes more than one file.
+ */
+export function applyUnifiedDiff(content: string, diff: string): PatchResult {
+  const lines = splitLines(content)
+  const offsets = [0]
+  for (const line of lines)
+    offsets.push(offsets[offsets.length - 1] + line.length)
+  const eol = content.includes('\r\n') ? '\r\n' : '\n'
+
+  const edits = parseUnifiedDiff(diff).map((hunk, i) => {
+    // a hunk without old lines inserts after the line in its header
+    const expectedAt = hunk.oldLines.length ? Math.max(hunk.oldStart - 1, 0) : hunk.oldStart
+    let index = matchesAt(lines, hunk.oldLines, expectedAt) ? expectedAt : -1
+    for (let delta = 1; index < 0 && (expectedAt - delta >= 0 || expectedAt + delta < lines.length); delta++) {
+      if (matchesAt(lines, hunk.oldLines, expectedAt - delta))
+        index = expectedAt - delta
+      else if (matchesAt(lines, hunk.oldLines, expectedAt + delta))
+        index = expectedAt + delta
+    }
+    if (index < 0)
+      throw new PatchConflictError(
+        `Hunk #${i + 1} does not match the file content`,
+        i,
+        hunk.oldLines.join('\n'),
+        lines.slice(Math.max(expectedAt - CONTEXT_LINES, 0), expectedAt + hunk.oldLines.length + CONTEXT_LINES).map(stripEol).join('\n'),
+        hunk.oldStart,
+      )
+
+    const end = index + hunk.oldLines.length
+    // the no newline markers add or drop the final newline, without them the file keeps its own
+    const lastLineTerminated = hunk.newNoEol ? false
+      : hunk.oldNoEol || end < lines.length || !hunk.oldLines.length || lines[end - 1].endsWith('\n')
+    const replacement = hunk.newLines.map(line => line + eol).join('')
+    return {
+      start: offsets[index],
+      end: offsets[end],
+      replacement: lastLineTerminated ? replacement : replacement.slice(0, -eol.length),
+    }
+  })
+
+  return applyEdits(content, edits)
+}
+
+/**
+ * Applies a list of search/replace hunks to the given content.
+ * Every search string must occur exactly once in the current content.
+ *
+ * @param {string} content - The current file content.
+ * @param {SearchReplaceHunk[]} hunks - The hunks to apply.
+ * @returns {PatchResult} The new content and the byte range of every hunk in it.
+ */
+export function applySearchReplace(content: string, hunks: SearchReplaceHunk[]): PatchResult {
+  const edits = hunks.map(({ search, replace }, i) => {
+    if (typeof search !== 'string' || typeof replace !== 'string' || !search)
+      throw malformedPatch(`Hunk #${i + 1} must have a non-empty "search" and a "replace" string`)
+
+    const start = content.indexOf(search)
+    if (start < 0) {
+      // show where the first line of the search text appears, if anywhere
+      const firstLine = search.split(/\r?\n/).find(line => line.trim())?.trim()
+      const lines = content.split(/\r?\n/)
+      const near = firstLine ? lines.findIndex(line => line.includes(firstLine)) : -1
+      throw new PatchConflictError(
+        `Hunk #${i + 1} search text not found in file`,
+        i,
+        search,
+        near < 0 ? null : lines.slice(Math.max(near - CONTEXT_LINES, 0), near + search.split(/\r?\n/).length + CONTEXT_LINES).join('\n'),
+        near < 0 ? undefined : near + 1,
+      )
+    }
+    if (content.indexOf(search, start + 1) >= 0)
+      throw new PatchConflictError(
+        `Hunk #${i + 1} search text matches more than once, add more context`,
+        i,
+        search,
+        null,
+        content.substring(0, start).split('\n').length,
+      )
+
+    return { start, end: start + search.length, replacement: replace }
+  })
+
+  return applyEdits(content, edits)
+}
+
+// Beyond this many cells, a changed block is diffed as a whole instead of line by line
+const MAX_DIFF_CELLS = 4000000
+
+interface DiffLine {
+  type: ' ' | '-' | '+'
+  line: string
+}
+
+// Lines of the changed block between the common prefix and suffix, matched by their longest common subsequence
+function diffBlock(oldLines: string[], newLines: string[]): DiffLine[] {
+  if (!oldLines.length || !newLines.length || oldLines.length * newLines.length > MAX_DIFF_CELLS)
+    return [...oldLines.map(line => ({ type: '-' as const, line })), ...newLines.map(line => ({ type: '+' as const, line }))]
+
+  const width = newLines.length + 1
+  const lengths = new Uint32Array((oldLines.length + 1) * width)
+  for (let i = oldLines.length - 1; i >= 0; i--)
+    for (let j = newLines.length - 1; j >= 0; j--)
+      lengths[i * width + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      lines.push({ type: ' ', line: oldLines[i++] })
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+      lines.push({ type: '-', line: oldLines[i++] })
+    else
+      lines.push({ type: '+', line: newLines[j++] })
+  }
+  return [
+    ...lines,
+    ...oldLines.slice(i).map(line => ({ type: '-' as const, line })),
+    ...newLines.slice(j).map(line => ({ type: '+' as const, line })),
+  ]
+}
+
+/**
+ * Writes the unified diff between two versions of a file, with three lines of
+ * context, in the format applyUnifiedDiff reads.
+ *
+ * @param {string} fileName - The file name for the headers.
+ * @param {string|null} before - The content before, null when the file is created.
+ * @param {string|null} after - The content after, null when the file is deleted.
+ * @returns {string} The diff, empty when nothing changed.
+ */
+export function createUnifiedDiff(fileName: string, before: string | null, after: string | null): string {
+  const oldLines = splitLines(before ?? '').map(stripEol)
+  const newLines = splitLines(after ?? '').map(stripEol)
+  let prefix = 0
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix])
+    prefix++
+  let suffix = 0
+  while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix])
+    suffix++
+
+  const lines: DiffLine[] = [
+    ...oldLines.slice(0, prefix).map(line => ({ type: ' ' as const, line })),
+    ...diffBlock(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)),
+    ...oldLines.slice(oldLines.length - suffix).map(line => ({ type: ' ' as const, line })),
+  ]
+  // a missing final newline is a change of the last line too
+  const oldEnd = !before || before.endsWith('\n')
+  const newEnd = !after || after.endsWith('\n')
+  if (oldEnd !== newEnd && lines[lines.length - 1]?.type === ' ') {
+    const last = lines.pop() as DiffLine
+    lines.push({ type: '-', line: last.line }, { type: '+', line: last.line })
+  }
+
+  // changed lines with their context, close ranges merged into one hunk
+  const ranges: [number, number][] = []
+  lines.forEach(({ type }, i) => {
+    if (type === ' ')
+      return
+    const start = Math.max(i - CONTEXT_LINES, 0)
+    const end = Math.min(i + CONTEXT_LINES + 1, lines.length)
+    const last = ranges[ranges.length - 1]
+    if (last && start <= last[1])
+      last[1] = end
+    else
+      ranges.push([start, end])
+  })
+  if (!ranges.length)
+    return ''
+
+  const output = [before === null ? '--- /dev/null' : `--- a/${fileName}`, after === null ? '+++ /dev/null' : `+++ b/${fileName}`]
+  let oldLine = 0
+  let newLine = 0
+  let cursor = 0
+  for (const [start, end] of ranges) {
+    for (; cursor < start; cursor++) {
+      oldLine += lines[cursor].type === '+' ? 0 : 1
+      newLine += lines[cursor].type === '-' ? 0 : 1
+    }
+    const hunk = lines.slice(start, end)
+    const oldCount = hunk.filter(({ type }) => type !== '+').length
+    const newCount = hunk.filter(({ type }) => type !== '-').length
+    // an empty side is numbered by the line it comes after
+    output.push(`@@ -${oldCount ? oldLine + 1 : oldLine},${oldCount} +${newCount ? newLine + 1 : newLine},${newCount} @@`)
+    for (const { type, line } of hunk) {
+      output.push(type + line)
+      oldLine += type === '+' ? 0 : 1
+      newLine += type === '-' ? 0 : 1
+      if ((type !== '+' && oldLine === oldLines.length && !oldEnd) || (type !== '-' && newLine === newLines.length && !newEnd))
+        output.push('\\ No newline at end of file')
+    }
+    cursor = end
+  }
+  return output.join('\n') + '\n'
+}
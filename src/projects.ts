@@ -0,0 +1,153 @@
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { CapabilityProfile, getProfile, PROFILES } from './capabilities';
+import { setProjectDenyList } from './file-utils';
+
+// The project of the routes that are not under /projects/:projectId, served from BASE_PATH
+export const DEFAULT_PROJECT = 'default'
+
+// Where the routes of a project are mounted, in front of the path of every route
+export const PROJECT_PREFIX = '/projects/:projectId'
+
+export type ProjectSource = 'environment' | 'config' | 'api'
+
+/**
+ * A project root served by the plugin. Every project has its own capability
+ * profile and deny list; its command policy and history are kept in its own
+ * `.code-plugin` directory.
+ */
+export interface Project {
+  id: string
+  root: string
+  profile: CapabilityProfile
+  // gitignore-style patterns denied on top of the global deny list
+  deny: string[]
+  source: ProjectSource
+}
+
+// How a project is declared in the projects file or in a POST /projects request
+export interface ProjectConfig {
+  id: string
+  root: string
+  profile?: string
+  deny?: string[]
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // the project the request works on, set by resolveProject
+    project: Project
+  }
+}
+
+const projects = new Map<string, Project>()
+
+const invalid = (message: string) => Object.assign(new Error(message), { code: 'EINVAL' })
+
+const conflict = (message: string) => Object.assign(new Error(message), { code: 'ECONFLICT' })
+
+// The real path of a directory, the path itself when it was removed since
+function realPath(directory: string) {
+  try {
+    return fs.realpathSync(directory)
+  } catch {
+    return directory
+  }
+}
+
+// Whether a directory is the same as or inside another one, compared by their real paths
+const isInside = (parent: string, directory: string) => {
+  const relative = path.relative(realPath(parent), realPath(directory))
+  return !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+/**
+ * Registers a project root under an id.
+ *
+ * @param {ProjectConfig} config - The id, root, profile and deny list of the project.
+ * @param {ProjectSource} source - Where the project was declared.
+ * @param {string} baseDir - The directory a relative root is resolved from.
+ * @throws {Error} EINVAL when the id, root or profile is invalid, ECONFLICT when the id or root is taken,
+ * or when the root is inside another project or contains one.
+ */
+export function registerProject(config: ProjectConfig, source: ProjectSource, baseDir = process.cwd()): Project {
+  if (!/^[\w.-]+$/.test(config.id ?? ''))
+    throw invalid(`Invalid project id ${config.id}, use letters, digits, dots, dashes and underscores`)
+  if (projects.has(config.id))
+    throw conflict(`Project ${config.id} is already registered`)
+  const profileName = config.profile ?? process.env.PROFILE ?? 'full'
+  if (!PROFILES[profileName])
+    throw invalid(`Unknown profile ${profileName}, expected one of ${Object.keys(PROFILES).join(', ')}`)
+
+  const root = path.resolve(baseDir, config.root ?? '')
+  if (!fs.statSync(root, { throwIfNoEntry: false })?.isDirectory())
+    throw invalid(`Project root ${config.root} is not a directory`)
+  const existing = [...projects.values()].find(project => project.root === root)
+  if (existing)
+    throw conflict(`${config.root} is already served as project ${existing.id}`)
+  // the files of a nested project could be reached through the other project, with its profile and deny list
+  const overlapping = [...projects.values()].find(project => isInside(project.root, root) || isInside(root, project.root))
+  if (overlapping)
+    throw conflict(`${config.root} overlaps project ${overlapping.id} at ${overlapping.root}, projects cannot be nested in one another`)
+
+  const project: Project = { id: config.id, root, profile: getProfile(profileName), deny: config.deny ?? [], source }
+  setProjectDenyList(root, project.deny)
+  projects.set(project.id, project)
+  return project
+}
+
+/**
+ * Stops serving a project. The default project cannot be removed.
+ *
+ * @param {string} id - The project id.
+ * @returns {Project|undefined} The removed project, undefined when there is none with this id.
+ */
+export function unregisterProject(id: string): Project | undefined {
+  if (id === DEFAULT_PROJECT)
+    throw invalid('The default project cannot be removed')
+  const project = projects.get(id)
+  if (project) {
+    setProjectDenyList(project.root, [])
+    projects.delete(id)
+  }
+  return project
+}
+
+export function getProject(id: string): Project | undefined {
+  return projects.get(id)
+}
+
+export function listProjects(): Project[] {
+  return [...projects.values()]
+}
+
+/**
+ * Registers the projects of a projects file, `{ "projects": [{ "id", "root", "profile", "deny" }] }`.
+ * Roots are relative to the directory of the file.
+ *
+ * @param {string} filePath - The projects file.
+ */
+export function loadProjectsFile(filePath: string): Project[] {
+  const config = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  if (!Array.isArray(config?.projects))
+    throw invalid(`Invalid projects file ${filePath}: expected { "projects": [{ "id": string, "root": string }] }`)
+  return (config.projects as ProjectConfig[]).map(project => registerProject(project, 'config', path.dirname(path.resolve(filePath))))
+}
+
+/**
+ * Sets the project of a request: the one named by the projectId path
+ * parameter, or the default project for routes outside of /projects/:projectId.
+ */
+export const resolveProject: express.RequestHandler = (req, res, next) => {
+  const id = req.params.projectId ?? DEFAULT_PROJECT
+  const project = projects.get(id)
+  if (!project)
+    return next(Object.assign(new Error(`Unknown project ${id}`), { code: 'ENOPROJECT' }))
+  req.project = project
+  next()
+}
+
+// What the API tells about a project
+export const describeProject = ({ id, root, profile, deny, source }: Project) =>
+  ({ id, root, profile: profile.name, capabilities: [...profile.capabilities], deny, source })
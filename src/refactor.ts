@@ -0,0 +1,719 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { toCharOffset, writeFileAtomic } from './file-utils';
+import { getFunctionData } from './function-utils';
+import { ensureFile, findDeclarations, getProjectService, isInside, ProjectService, toPosition } from './language-service';
+import { applyEdits, createUnifiedDiff, Edit } from './patch-utils';
+import { resolveSandboxedPath } from './sandbox';
+
+export interface FileChange {
+  fileName: string
+  // null when the refactor creates the file
+  before: string | null
+  after: string
+}
+
+export interface RefactorPlan {
+  changes: FileChange[]
+  // what could not be updated automatically and needs a look
+  warnings: string[]
+}
+
+// The symbol to rename: at a line and column of a file, or by name, optionally declared in a file
+export interface RenameTarget {
+  fileName?: string
+  line?: number
+  column?: number
+  name?: string
+}
+
+type ImportLike = ts.ImportDeclaration | ts.ExportDeclaration
+
+// Changes to the imports of one file, turned into edits once every change is known
+interface ImportChanges {
+  source: ts.SourceFile
+  // bindings to drop from existing declarations
+  removed: Map<ImportLike | ts.ImportEqualsDeclaration, Set<ts.Node>>
+  // named specifiers to add to existing declarations
+  added: Map<ImportLike, string[]>
+  // new declarations, inserted after the last import
+  lines: string[]
+}
+
+const invalid = (message: string) => Object.assign(new Error(message), { code: 'EINVAL' })
+
+const conflict = (message: string) => Object.assign(new Error(message), { code: 'ECONFLICT' })
+
+const relative = (root: string, fileName: string) => path.relative(root, fileName)
+
+const isProjectFile = (root: string, fileName: string) =>
+  isInside(root, fileName) && !fileName.split(/[\\/]/).includes('node_modules')
+
+function addEdit(edits: Map<string, Edit[]>, fileName: string, edit: Edit) {
+  edits.set(fileName, [...(edits.get(fileName) ?? []), edit])
+}
+
+/**
+ * Turns the edits of every file into the changes of a plan. Every file goes
+ * through the sandbox, a refactor never touches ignored or deny-listed files.
+ */
+async function toPlan(root: string, edits: Map<string, Edit[]>, created: Map<string, string>, warnings: string[]): Promise<RefactorPlan> {
+  const changes: FileChange[] = []
+  for (const [fileName, fileEdits] of edits) {
+    await resolveSandboxedPath(root, relative(root, fileName))
+    const before = await fs.promises.readFile(fileName, 'utf8')
+    const { content } = applyEdits(before, fileEdits)
+    if (content !== before)
+      changes.push({ fileName: relative(root, fileName), before, after: content })
+  }
+  for (const [fileName, content] of created) {
+    await resolveSandboxedPath(root, relative(root, fileName))
+    changes.push({ fileName: relative(root, fileName), before: null, after: content })
+  }
+  return { changes: changes.sort((a, b) => a.fileName.localeCompare(b.fileName)), warnings }
+}
+
+// Whether a name can be declared, contextual keywords like `type` can but reserved words cannot
+function isIdentifierName(text: string) {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.Standard, text)
+  const kind = scanner.scan()
+  return (kind === ts.SyntaxKind.Identifier || kind > ts.SyntaxKind.LastReservedWord && kind <= ts.SyntaxKind.LastKeyword)
+    && scanner.getTokenText() === text && scanner.scan() === ts.SyntaxKind.EndOfFileToken
+}
+
+/**
+ * Finds the position of the symbol to rename. An imported name is followed to
+ * its declaration in the project, so the rename is not limited to a local alias.
+ */
+async function locateSymbol(root: string, project: ProjectService, target: RenameTarget) {
+  if (target.fileName && target.line !== undefined && target.column !== undefined) {
+    const position = toPosition(project, target.fileName, target.line, target.column)
+    const info = project.service.getRenameInfo(target.fileName, position, {})
+    const definition = info.canRename && info.kind === ts.ScriptElementKind.alias
+      ? project.service.getDefinitionAtPosition(target.fileName, position)?.find(({ fileName }) => isProjectFile(root, fileName))
+      : undefined
+    return definition
+      ? { fileName: definition.fileName, position: definition.textSpan.start }
+      : { fileName: target.fileName, position }
+  }
+
+  const declarations = await findDeclarations(root, target.name ?? '', target.fileName && relative(root, target.fileName))
+  if (!declarations.length)
+    return
+  if (declarations.length > 1)
+    throw invalid(`${target.name} is declared more than once, give the fileName and line and column of one: ${
+      declarations.map(({ fileName, symbol }) => `${relative(root, fileName)}:${symbol.line}`).join(', ')}`)
+  ensureFile(project, declarations[0].fileName)
+  return { fileName: declarations[0].fileName, position: declarations[0].position }
+}
+
+// Declarations that belong to a class, interface, enum or object rather than to a scope
+const isMember = (declaration: ts.Declaration) =>
+  ts.isClassElement(declaration) || ts.isTypeElement(declaration) || ts.isEnumMember(declaration)
+  || ts.isPropertyAssignment(declaration) || ts.isShorthandPropertyAssignment(declaration)
+
+/**
+ * Finds a declaration the rename would clash with: another member with the new
+ * name for a member, else a symbol with the new name in the scope of the
+ * declaration or of a reference, which the renamed symbol would clash with,
+ * shadow, or be shadowed by. Library globals may be shadowed.
+ */
+function findNameClash(root: string, project: ProjectService, location: { fileName: string, position: number }, locations: readonly ts.RenameLocation[], newName: string) {
+  const program = project.service.getProgram()
+  const source = program?.getSourceFile(location.fileName)
+  if (!program || !source)
+    return
+  const checker = program.getTypeChecker()
+  const node = findNodeAt(source, location.position)
+  const renamed = ts.isIdentifier(node) ? symbolOf(checker, node) : undefined
+  if (!renamed)
+    return
+
+  const member = renamed.declarations?.find(isMember)
+  if (member) {
+    const container = member.parent
+    const statics = (ts.isClassLike(container) || ts.isEnumDeclaration(container)) && container.name
+      ? checker.getSymbolAtLocation(container.name)?.exports?.get(ts.escapeLeadingUnderscores(newName))
+      : undefined
+    return (checker.getTypeAtLocation(container).getProperty(newName) ?? statics)?.declarations?.[0]
+  }
+
+  for (const { fileName, textSpan, suffixText } of locations) {
+    const referenceSource = program.getSourceFile(fileName)
+    // `{ other as helper }` keeps the local name, only the exported one changes
+    if (!referenceSource || !isProjectFile(root, fileName) || suffixText?.startsWith(' as '))
+      continue
+    const reference = findNodeAt(referenceSource, textSpan.start)
+    // `ns.helper` is looked up in ns, not in the scope
+    if ((ts.isPropertyAccessExpression(reference.parent) || ts.isQualifiedName(reference.parent)) && reference.parent.getChildAt(0) !== reference)
+      continue
+    const clash = checker.getSymbolsInScope(reference, ts.SymbolFlags.Value | ts.SymbolFlags.Type | ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias)
+      .find(symbol => symbol.name === newName && symbol !== renamed
+        && symbol.declarations?.some(declaration => isProjectFile(root, declaration.getSourceFile().fileName)))
+    if (clash)
+      return clash.declarations?.find(declaration => isProjectFile(root, declaration.getSourceFile().fileName))
+  }
+}
+
+/**
+ * Plans the rename of a symbol and of all its references in the project with
+ * the TypeScript language service. Shorthand properties and re-exports keep
+ * their public name through an alias, e.g. `{ oldName: newName }`.
+ *
+ * @param {string} root - The project root.
+ * @param {RenameTarget} target - The symbol, with an absolute fileName.
+ * @param {string} newName - The new name.
+ * @returns {Promise<RefactorPlan|undefined>} The changes, undefined when no symbol has this name.
+ * @throws {Error} EINVAL when the symbol cannot be renamed, e.g. it is declared by a library,
+ * ECONFLICT when the new name is already taken where the symbol is declared or used.
+ */
+export async function planRename(root: string, target: RenameTarget, newName: string): Promise<RefactorPlan | undefined> {
+  if (!isIdentifierName(newName))
+    throw invalid(`${newName} is not a valid identifier`)
+  const project = getProjectService(root)
+  const location = await locateSymbol(root, project, target)
+  if (!location)
+    return
+
+  const info = project.service.getRenameInfo(location.fileName, location.position, {})
+  if (!info.canRename)
+    throw invalid(info.localizedErrorMessage)
+  const edits = new Map<string, Edit[]>()
+  const warnings: string[] = []
+  const locations = project.service.findRenameLocations(location.fileName, location.position, false, false, { providePrefixAndSuffixTextForRename: true }) ?? []
+  const clash = findNameClash(root, project, location, locations, newName)
+  if (clash) {
+    const clashSource = clash.getSourceFile()
+    throw conflict(`${newName} is already declared at ${relative(root, clashSource.fileName)}:${
+      clashSource.getLineAndCharacterOfPosition(clash.getStart(clashSource)).line + 1}, renaming ${info.displayName} would clash with it`)
+  }
+  for (const { fileName, textSpan, prefixText, suffixText } of locations) {
+    if (!isProjectFile(root, fileName)) {
+      warnings.push(`${fileName} refers to ${info.displayName} but is outside of the project, it was not changed`)
+      continue
+    }
+    addEdit(edits, fileName, {
+      start: textSpan.start,
+      end: textSpan.start + textSpan.length,
+      replacement: `${prefixText ?? ''}${newName}${suffixText ?? ''}`,
+    })
+  }
+  return toPlan(root, edits, new Map(), warnings)
+}
+
+// The name a top-level function is declared with, `function f() {}` or `const f = () => {}`
+function functionNameOf(statement: ts.Statement): ts.Identifier | undefined {
+  if (ts.isFunctionDeclaration(statement) && statement.body)
+    return statement.name
+  if (ts.isVariableStatement(statement) && statement.declarationList.declarations.length === 1) {
+    const [declaration] = statement.declarationList.declarations
+    if (ts.isIdentifier(declaration.name) && declaration.initializer
+      && (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer)))
+      return declaration.name
+  }
+}
+
+const hasModifier = (node: ts.Node, kind: ts.SyntaxKind) =>
+  !!(ts.canHaveModifiers(node) && ts.getModifiers(node)?.some(modifier => modifier.kind === kind))
+
+// Declarations that can get an `export` keyword
+const isExportable = (statement: ts.Statement) =>
+  ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isVariableStatement(statement)
+  || ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)
+  || ts.isModuleDeclaration(statement)
+
+const isImport = (statement: ts.Statement): statement is ts.ImportDeclaration | ts.ImportEqualsDeclaration =>
+  ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement)
+
+// The import declaration a binding belongs to, for `x` in `import x, { y as z } from 'm'` and `import x = require('m')`
+function importOf(declaration: ts.Node): ts.ImportDeclaration | ts.ImportEqualsDeclaration | undefined {
+  if (ts.isImportEqualsDeclaration(declaration))
+    return ts.isExternalModuleReference(declaration.moduleReference) ? declaration : undefined
+  if (ts.isImportSpecifier(declaration))
+    return declaration.parent.parent.parent
+  if (ts.isNamespaceImport(declaration))
+    return declaration.parent.parent
+  if (ts.isImportClause(declaration))
+    return declaration.parent
+}
+
+const moduleSpecifierOf = (declaration: ts.ImportDeclaration | ts.ImportEqualsDeclaration) =>
+  ts.isImportEqualsDeclaration(declaration)
+    ? ((declaration.moduleReference as ts.ExternalModuleReference).expression as ts.StringLiteral).text
+    : (declaration.moduleSpecifier as ts.StringLiteral).text
+
+// Names declared or imported at the top of a file
+function topLevelNames(source: ts.SourceFile): Map<string, ts.Node> {
+  const names = new Map<string, ts.Node>()
+  for (const statement of source.statements) {
+    if (ts.isVariableStatement(statement))
+      for (const declaration of statement.declarationList.declarations)
+        if (ts.isIdentifier(declaration.name))
+          names.set(declaration.name.text, declaration)
+    if (ts.isImportDeclaration(statement)) {
+      const clause = statement.importClause
+      if (clause?.name)
+        names.set(clause.name.text, clause)
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings))
+        names.set(clause.namedBindings.name.text, clause.namedBindings)
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings))
+        for (const element of clause.namedBindings.elements)
+          names.set(element.name.text, element)
+    }
+    const name = (statement as { name?: ts.Node }).name
+    if (name && ts.isIdentifier(name))
+      names.set(name.text, statement)
+  }
+  return names
+}
+
+// The symbol an identifier refers to, the variable rather than the property for `{ name }`
+function symbolOf(checker: ts.TypeChecker, identifier: ts.Identifier) {
+  return ts.isShorthandPropertyAssignment(identifier.parent)
+    ? checker.getShorthandAssignmentValueSymbol(identifier.parent)
+    : checker.getSymbolAtLocation(identifier)
+}
+
+function findNodeAt(node: ts.Node, position: number): ts.Node {
+  const child = node.getChildren().find(child => child.getStart() <= position && position < child.end)
+  return child ? findNodeAt(child, position) : node
+}
+
+// Where a statement starts with its doc comment, comments separated by a blank line are left in place
+function commentStart(source: ts.SourceFile, statement: ts.Statement): number {
+  let start = statement.getStart(source)
+  for (const comment of [...ts.getLeadingCommentRanges(source.text, statement.pos) ?? []].reverse()) {
+    if (/\n[ \t]*\r?\n/.test(source.text.slice(comment.end, start)))
+      break
+    start = comment.pos
+  }
+  return start
+}
+
+// The range of whole lines to delete for a node, with one of the blank lines around it
+function lineRange(text: string, start: number, end: number) {
+  while (end < text.length && ' \t;'.includes(text[end]))
+    end++
+  if (text[end] === '\r')
+    end++
+  if (text[end] === '\n')
+    end++
+  if (/\n\r?\n$/.test(text.slice(0, start))) {
+    if (text[end] === '\n' || text.startsWith('\r\n', end))
+      end += text[end] === '\n' ? 1 : 2
+    else if (end >= text.length)
+      start -= text.slice(0, start).endsWith('\r\n\r\n') ? 2 : 1
+  }
+  return { start, end }
+}
+
+/**
+ * How the imports of a file are written: their quotes, whether they end with a
+ * semicolon, and a relative specifier to copy the extension style from.
+ */
+function importStyle(source: ts.SourceFile | undefined, fallback?: ts.SourceFile): { quote: string, semicolon: boolean, relativeSpecifier?: string } {
+  const imports = source?.statements.filter((statement): statement is ts.ImportDeclaration | ts.ExportDeclaration =>
+    ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement) && !!statement.moduleSpecifier) ?? []
+  if (!imports.length && fallback)
+    return importStyle(fallback)
+  const specifiers = imports.map(({ moduleSpecifier }) => moduleSpecifier as ts.StringLiteral)
+  return {
+    quote: specifiers[0]?.getText(source).startsWith('"') ? '"' : '\'',
+    semicolon: imports.length ? imports[0].getText(source).endsWith(';') : false,
+    relativeSpecifier: specifiers.map(({ text }) => text).find(text => text.startsWith('.')),
+  }
+}
+
+const COMPILED_EXTENSIONS: Record<string, string> = { '.ts': '.js', '.tsx': '.js', '.mts': '.mjs', '.cts': '.cjs' }
+
+/**
+ * The relative module specifier that imports a file from another one, with an
+ * extension when the imports it sits among have one, e.g. `./utils.js` in ESM projects.
+ */
+function specifierFor(fromFile: string, toFile: string, like?: string): string {
+  const extension = path.extname(toFile)
+  let specifier = path.relative(path.dirname(fromFile), toFile).split(path.sep).join('/')
+  if (!specifier.startsWith('.'))
+    specifier = `./${specifier}`
+  const likeExtension = like && /\.[mc]?[jt]sx?$/.exec(like)?.[0]
+  if (!likeExtension)
+    return specifier.slice(0, -extension.length)
+  return /\.[mc]?ts/.test(likeExtension) ? specifier : specifier.slice(0, -extension.length) + (COMPILED_EXTENSIONS[extension] ?? extension)
+}
+
+/**
+ * Moves top-level functions between files, keeping the code as it is written:
+ * the function is cut with its doc comment and appended to the target, and
+ * only import declarations and `export` keywords are written anew.
+ */
+class FunctionMove {
+  private edits = new Map<string, Edit[]>()
+  private imports = new Map<string, ImportChanges>()
+  // the imports of a target file that does not exist yet
+  private newFileImports = new Map<string, string[]>()
+  private checker: ts.TypeChecker
+  // the file new files copy their import style from
+  private styleSource?: ts.SourceFile
+  warnings: string[] = []
+
+  constructor(private root: string, private project: ProjectService, private program: ts.Program) {
+    this.checker = program.getTypeChecker()
+  }
+
+  resolve(fromFile: string, specifier: string) {
+    return ts.resolveModuleName(specifier, fromFile, this.project.options, ts.sys).resolvedModule?.resolvedFileName
+  }
+
+  // The file a specifier of a file resolves to when it is relative, the specifier of a package otherwise
+  moduleOf(fromFile: string, specifier: string) {
+    if (!specifier.startsWith('.'))
+      return specifier
+    return this.resolve(fromFile, specifier) ?? path.resolve(path.dirname(fromFile), specifier) + '.ts'
+  }
+
+  importsOf(source: ts.SourceFile): ImportChanges {
+    const changes = this.imports.get(source.fileName) ?? { source, removed: new Map(), added: new Map(), lines: [] }
+    this.imports.set(source.fileName, changes)
+    return changes
+  }
+
+  edit(fileName: string, edit: Edit) {
+    addEdit(this.edits, fileName, edit)
+  }
+
+  removeBinding(source: ts.SourceFile, declaration: ImportLike | ts.ImportEqualsDeclaration, binding: ts.Node) {
+    const { removed } = this.importsOf(source)
+    removed.set(declaration, new Set([...(removed.get(declaration) ?? []), binding]))
+  }
+
+  /**
+   * Adds named imports or re-exports to a file, into an existing declaration
+   * of the same module when there is one. The module is an absolute file name,
+   * or the specifier of a package.
+   */
+  addNamed(source: ts.SourceFile | undefined, fileName: string, module: string, specifiers: string[], options: { typeOnly?: boolean, reexport?: boolean, like?: string } = {}) {
+    const existing = source?.statements.find((statement): statement is ImportLike => {
+      const declaration = options.reexport
+        ? ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause) && statement
+        : ts.isImportDeclaration(statement) && statement.importClause?.namedBindings && ts.isNamedImports(statement.importClause.namedBindings) && statement
+      if (!declaration || !declaration.moduleSpecifier)
+        return false
+      const typeOnly = ts.isImportDeclaration(declaration) ? !!declaration.importClause?.isTypeOnly : declaration.isTypeOnly
+      return typeOnly === !!options.typeOnly && this.isModule(fileName, (declaration.moduleSpecifier as ts.StringLiteral).text, module)
+    })
+    if (existing && source) {
+      const { added } = this.importsOf(source)
+      added.set(existing, [...(added.get(existing) ?? []), ...specifiers])
+      return
+    }
+    const style = importStyle(source, this.styleSource)
+    const specifier = path.isAbsolute(module) ? specifierFor(fileName, module, options.like ?? style.relativeSpecifier) : module
+    this.addLine(source, fileName, `${options.reexport ? 'export' : 'import'} ${options.typeOnly ? 'type ' : ''}{ ${specifiers.join(', ')} } from ${
+      style.quote}${specifier}${style.quote}${style.semicolon ? ';' : ''}\n`)
+  }
+
+  // Whether a specifier imported from a file is the module, an absolute file name or the specifier of a package
+  isModule(fromFile: string, specifier: string, module: string) {
+    return path.isAbsolute(module) ? this.resolve(fromFile, specifier) === module : specifier === module
+  }
+
+  addLine(source: ts.SourceFile | undefined, fileName: string, line: string) {
+    const lines = source ? this.importsOf(source).lines : this.newFileImports.get(fileName) ?? []
+    if (!lines.includes(line))
+      lines.push(line)
+    if (!source)
+      this.newFileImports.set(fileName, lines)
+  }
+
+  // Rewrites the import declarations that changed, and inserts the new ones after the last import
+  flushImports() {
+    for (const { source, removed, added, lines } of this.imports.values()) {
+      const text = source.text
+      for (const declaration of new Set([...removed.keys(), ...added.keys()])) {
+        const replacement = this.rewrite(source, declaration, removed.get(declaration) ?? new Set(), added.get(declaration as ImportLike) ?? [])
+        if (replacement === undefined) {
+          const range = lineRange(text, declaration.getStart(source), declaration.end)
+          this.edit(source.fileName, { start: range.start, end: range.end, replacement: '' })
+        } else
+          this.edit(source.fileName, { start: declaration.getStart(source), end: declaration.end, replacement })
+      }
+      if (!lines.length)
+        continue
+      const lastImport = [...source.statements].reverse().find(statement =>
+        isImport(statement) || ts.isExportDeclaration(statement) && statement.moduleSpecifier)
+      let position = lastImport ? lastImport.end : 0
+      while (lastImport && position < text.length && text[position] !== '\n')
+        position++
+      if (lastImport && position < text.length)
+        position++
+      const prefix = lastImport && position >= text.length && !text.endsWith('\n') ? '\n' : ''
+      const blankLine = !lastImport && source.statements.length ? '\n' : ''
+      this.edit(source.fileName, { start: position, end: position, replacement: prefix + lines.join('') + blankLine })
+    }
+  }
+
+  // The declaration without the removed bindings and with the added specifiers, undefined when nothing is left
+  rewrite(source: ts.SourceFile, declaration: ImportLike | ts.ImportEqualsDeclaration, removed: Set<ts.Node>, added: string[]): string | undefined {
+    if (ts.isImportEqualsDeclaration(declaration))
+      return removed.size ? undefined : declaration.getText(source)
+    const semicolon = declaration.getText(source).endsWith(';') ? ';' : ''
+    const from = ` from ${declaration.moduleSpecifier?.getText(source)}${semicolon}`
+    if (ts.isExportDeclaration(declaration)) {
+      const elements = declaration.exportClause && ts.isNamedExports(declaration.exportClause) ? declaration.exportClause.elements : []
+      const specifiers = [...elements.filter(element => !removed.has(element)).map(element => element.getText(source)), ...added]
+      return specifiers.length ? `export ${declaration.isTypeOnly ? 'type ' : ''}{ ${specifiers.join(', ')} }${from}` : undefined
+    }
+    const clause = declaration.importClause
+    if (!clause)
+      return declaration.getText(source)
+    const defaultName = clause.name && !removed.has(clause) ? clause.name.text : undefined
+    const bindings = clause.namedBindings
+    const namespace = bindings && ts.isNamespaceImport(bindings) && !removed.has(bindings) ? `* as ${bindings.name.text}` : undefined
+    const specifiers = [
+      ...(bindings && ts.isNamedImports(bindings) ? bindings.elements.filter(element => !removed.has(element)).map(element => element.getText(source)) : []),
+      ...added,
+    ]
+    const parts = [defaultName, namespace ?? (specifiers.length ? `{ ${specifiers.join(', ')} }` : undefined)].filter(Boolean)
+    return parts.length ? `import ${clause.isTypeOnly ? 'type ' : ''}${parts.join(', ')}${from}` : undefined
+  }
+
+  /**
+   * Plans the move of the top-level function declared by a statement of a file to another file.
+   */
+  plan(source: ts.SourceFile, statement: ts.Statement, name: ts.Identifier, targetFile: string) {
+    const { checker, root } = this
+    const fileName = source.fileName
+    const target = this.program.getSourceFile(targetFile)
+    this.styleSource = source
+    const targetNames = target ? topLevelNames(target) : new Map<string, ts.Node>()
+    const inStatement = (node: ts.Node) => node.getSourceFile() === source && node.pos >= statement.pos && node.end <= statement.end
+    const existing = targetNames.get(name.text)
+    if (existing && !(ts.isImportSpecifier(existing) && this.resolve(targetFile, moduleSpecifierOf(existing.parent.parent.parent)) === fileName))
+      throw conflict(`${relative(root, targetFile)} already has a ${name.text}`)
+
+    // what the function uses from its file: imports, and other declarations of the file
+    const usedImports = new Map<ts.Node, ts.ImportDeclaration | ts.ImportEqualsDeclaration>()
+    const usedLocals = new Map<string, ts.Statement>()
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node) && node !== name) {
+        const declaration = symbolOf(checker, node)?.declarations?.[0]
+        if (declaration && declaration.getSourceFile() === source && !inStatement(declaration)) {
+          const importDeclaration = importOf(declaration)
+          // the statement declaring the name, not one of its members like a property of an interface
+          const topLevel = source.statements.find(candidate => candidate === declaration as ts.Node
+            || ts.isVariableStatement(candidate) && candidate.declarationList.declarations.some(variable => variable === declaration))
+          if (importDeclaration)
+            usedImports.set(declaration, importDeclaration)
+          else if (topLevel)
+            usedLocals.set(node.text, topLevel)
+        }
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(statement)
+
+    // every other use of the function, in its file and through imports
+    let usedInSource = false
+    const references = this.project.service.findReferences(fileName, name.getStart(source))?.flatMap(({ references }) => references) ?? []
+    for (const reference of references) {
+      const referenceSource = this.program.getSourceFile(reference.fileName)
+      if (!referenceSource || !isProjectFile(root, reference.fileName))
+        continue
+      const node = findNodeAt(referenceSource, reference.textSpan.start)
+      if (referenceSource === source) {
+        if (!inStatement(node) && !reference.isDefinition)
+          usedInSource = true
+        continue
+      }
+      const parent = node.parent
+      const location = `${relative(root, reference.fileName)}:${referenceSource.getLineAndCharacterOfPosition(reference.textSpan.start).line + 1}`
+      const declaration = ts.isImportSpecifier(parent) ? parent.parent.parent.parent
+        : ts.isExportSpecifier(parent) && parent.parent.parent.moduleSpecifier ? parent.parent.parent
+        : undefined
+      if (declaration) {
+        const specifier = (declaration.moduleSpecifier as ts.StringLiteral).text
+        if (this.resolve(reference.fileName, specifier) !== fileName)
+          continue
+        this.removeBinding(referenceSource, declaration, parent)
+        if (reference.fileName === targetFile) {
+          if ((parent as ts.ImportSpecifier).propertyName)
+            this.warnings.push(`${location} imports ${name.text} under another name, use ${name.text} there instead`)
+          continue
+        }
+        const typeOnly = ts.isImportDeclaration(declaration) ? !!declaration.importClause?.isTypeOnly : declaration.isTypeOnly
+        this.addNamed(referenceSource, reference.fileName, targetFile, [parent.getText(referenceSource)], { typeOnly, reexport: ts.isExportDeclaration(declaration), like: specifier })
+      } else if (ts.isPropertyAccessExpression(parent) && parent.name === node)
+        this.warnings.push(`${location} reaches ${name.text} through a namespace or dynamic import, update it to ${relative(root, targetFile)}`)
+    }
+
+    // the source file: without the function, importing it back when still used, exporting what the function needs
+    const text = source.text
+    const start = commentStart(source, statement)
+    const range = lineRange(text, start, statement.end)
+    this.edit(fileName, { start: range.start, end: range.end, replacement: '' })
+    if (usedInSource)
+      this.addNamed(source, fileName, targetFile, [name.text])
+    for (const local of new Set(usedLocals.values())) {
+      if (!isExportable(local))
+        throw invalid(`${name.text} uses a declaration of ${relative(root, fileName)} that cannot be exported`)
+      if (!hasModifier(local, ts.SyntaxKind.ExportKeyword))
+        this.edit(fileName, { start: local.getStart(source), end: local.getStart(source), replacement: 'export ' })
+    }
+    const stillUsed = new Set<ts.Symbol>()
+    const collect = (node: ts.Node) => {
+      if (ts.isIdentifier(node)) {
+        const symbol = symbolOf(checker, node)
+        if (symbol)
+          stillUsed.add(symbol)
+      }
+      ts.forEachChild(node, collect)
+    }
+    source.statements.filter(other => other !== statement && !isImport(other)).forEach(collect)
+    for (const [binding, declaration] of usedImports) {
+      const symbol = checker.getSymbolAtLocation((binding as ts.NamedDeclaration).name as ts.Identifier)
+      if (!symbol || !stillUsed.has(symbol))
+        this.removeBinding(source, declaration, binding)
+    }
+    if (usedLocals.size && usedInSource)
+      this.warnings.push(`${relative(root, fileName)} and ${relative(root, targetFile)} now import each other`)
+
+    // the target file: the imports of the function, from the target's point of view, and the function itself
+    const targetImports = new Map<ts.ImportDeclaration | ts.ImportEqualsDeclaration, ts.Node[]>()
+    for (const [binding, declaration] of [...usedImports].sort(([a], [b]) => a.pos - b.pos)) {
+      const specifier = moduleSpecifierOf(declaration)
+      const module = this.moduleOf(fileName, specifier)
+      if (module === targetFile)
+        continue
+      const localName = ((binding as ts.NamedDeclaration).name as ts.Identifier).text
+      const present = targetNames.get(localName)
+      const presentImport = present && importOf(present)
+      if (present && !(presentImport && this.isModule(targetFile, moduleSpecifierOf(presentImport), module) && present.getText(target) === binding.getText(source)))
+        throw conflict(`${relative(root, targetFile)} already has a ${localName}`)
+      if (!present)
+        targetImports.set(declaration, [...(targetImports.get(declaration) ?? []), binding])
+    }
+    for (const [declaration, bindings] of targetImports) {
+      const specifier = moduleSpecifierOf(declaration)
+      const module = this.moduleOf(fileName, specifier)
+      const style = importStyle(target, source)
+      const quoted = `${style.quote}${path.isAbsolute(module) ? specifierFor(targetFile, module, specifier) : module}${style.quote}`
+      const end = style.semicolon ? ';\n' : '\n'
+      if (ts.isImportEqualsDeclaration(declaration)) {
+        this.addLine(target, targetFile, `import ${declaration.name.text} = require(${quoted})${end}`)
+        continue
+      }
+      const typeOnly = !!declaration.importClause?.isTypeOnly
+      const named = bindings.filter(ts.isImportSpecifier).map(binding => binding.getText(source))
+      const others = bindings.filter(binding => !ts.isImportSpecifier(binding))
+        .map(binding => ts.isNamespaceImport(binding) ? `* as ${binding.name.text}` : (binding as ts.ImportClause).name?.text)
+      if (!others.length)
+        this.addNamed(target, targetFile, module, named, { typeOnly, like: specifier })
+      else
+        this.addLine(target, targetFile, `import ${typeOnly ? 'type ' : ''}${[...others, ...named.length ? [`{ ${named.join(', ')} }`] : []].join(', ')} from ${quoted}${end}`)
+    }
+    for (const localName of usedLocals.keys()) {
+      if (targetNames.has(localName))
+        throw conflict(`${relative(root, targetFile)} already has a ${localName}`)
+      this.addNamed(target, targetFile, fileName, [localName])
+    }
+
+    const exportKeyword = usedInSource && !hasModifier(statement, ts.SyntaxKind.ExportKeyword) ? 'export ' : ''
+    const code = text.slice(start, statement.getStart(source)) + exportKeyword + text.slice(statement.getStart(source), statement.end)
+    this.flushImports()
+    if (!target)
+      return { created: (this.newFileImports.get(targetFile) ?? []).join('') + (this.newFileImports.get(targetFile)?.length ? '\n' : '') + code + '\n' }
+    const separator = target.text.endsWith('\n') ? '\n' : target.text ? '\n\n' : ''
+    this.edit(targetFile, { start: target.text.length, end: target.text.length, replacement: separator + code + '\n' })
+  }
+
+  toPlan(created?: { fileName: string, content: string }) {
+    return toPlan(this.root, this.edits, new Map(created ? [[created.fileName, created.content]] : []), this.warnings)
+  }
+}
+
+/**
+ * Plans moving a top-level function to another file, which is created when it
+ * does not exist. Imports of the function across the project are pointed at
+ * the new file, the function brings the imports it needs along, and the
+ * declarations of its old file it uses are exported from there.
+ *
+ * @param {string} root - The project root.
+ * @param {string} fileName - The absolute name of the file with the function.
+ * @param {string} functionName - The function.
+ * @param {string} targetFileName - The absolute name of the file to move it to.
+ * @returns {Promise<RefactorPlan|undefined>} The changes, undefined when the function does not exist.
+ * @throws {Error} EINVAL when the function is not a top-level one, ECONFLICT when the target already has its name.
+ */
+export async function planMoveFunction(root: string, fileName: string, functionName: string, targetFileName: string): Promise<RefactorPlan | undefined> {
+  if (path.resolve(fileName) === path.resolve(targetFileName))
+    throw invalid('The function is already in this file')
+  if (!/\.[mc]?[jt]sx?$/.test(targetFileName))
+    throw invalid('The target should be a TypeScript or JavaScript file')
+  const functionData = await getFunctionData(functionName, fileName)
+  if (!functionData)
+    return
+
+  const project = getProjectService(root)
+  ensureFile(project, fileName)
+  if (fs.existsSync(targetFileName))
+    ensureFile(project, targetFileName)
+  const program = project.service.getProgram()
+  const source = program?.getSourceFile(fileName)
+  if (!program || !source)
+    throw Object.assign(new Error(`File not found: ${fileName}`), { code: 'ENOENT' })
+  // the function range is in bytes, the statements of the language service in characters
+  const start = toCharOffset(source.text, functionData.startByte)
+  const statement = source.statements.find(candidate => candidate.getStart(source) <= start && start < candidate.end)
+  const name = statement && functionNameOf(statement)
+  if (!statement || !name)
+    throw invalid(`Only top-level functions can be moved, ${functionName} is not one`)
+  if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword))
+    throw invalid('Default exports cannot be moved, export the function by name first')
+
+  const move = new FunctionMove(root, project, program)
+  const result = move.plan(source, statement, name, targetFileName)
+  return move.toPlan(result && { fileName: targetFileName, content: result.created })
+}
+
+/**
+ * Writes the changes of a plan. Every file is checked before any is written,
+ * and the files already written are put back when one fails, so the project
+ * is never left half refactored.
+ *
+ * @param {string} root - The project root.
+ * @param {RefactorPlan} plan - The changes.
+ * @throws {Error} ECONFLICT when a file changed since the plan was made.
+ */
+export async function applyRefactor(root: string, plan: RefactorPlan) {
+  for (const change of plan.changes) {
+    const current = await fs.promises.readFile(path.join(root, change.fileName), 'utf8').catch(() => null)
+    if (current !== change.before)
+      throw conflict(`${change.fileName} changed while the refactor was planned, try again`)
+  }
+  const written: FileChange[] = []
+  try {
+    for (const change of plan.changes) {
+      const filePath = path.join(root, change.fileName)
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+      await writeFileAtomic(filePath, change.after)
+      written.push(change)
+    }
+  } catch (err) {
+    for (const change of written.reverse())
+      if (change.before === null)
+        await fs.promises.rm(path.join(root, change.fileName), { force: true })
+      else
+        await writeFileAtomic(path.join(root, change.fileName), change.before)
+    throw err
+  }
+}
+
+/**
+ * The diff of every file of a plan, one after the other.
+ *
+ * @param {RefactorPlan} plan - The changes.
+ */
+export function diffPlan(plan: RefactorPlan): string {
+  return plan.changes.map(({ fileName, before, after }) => createUnifiedDiff(fileName, before, after)).join('')
+}
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import ignore from 'ignore';
+import path from 'path';
+import { getDenyList, readIgnoreRules } from './file-utils';
+
+/**
+ * Raised when a requested path is outside of the project or deny-listed.
+ */
+export class SandboxError extends Error {
+  code = 'ESANDBOX'
+
+  constructor(message: string, public fileName: string) {
+    super(message)
+  }
+}
+
+// Resolves symlinks of the longest existing prefix, so paths that do not exist yet can be checked too
+export function realpathOfExisting(filePath: string): string {
+  const missing: string[] = []
+  let current = filePath
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT' && (err as NodeJS.ErrnoException).code !== 'ENOTDIR')
+        throw err
+      const parent = path.dirname(current)
+      if (parent === current)
+        return filePath
+      missing.unshift(path.basename(current))
+      current = parent
+    }
+  }
+}
+
+export const isOutside = (root: string, filePath: string) => {
+  const relative = path.relative(root, filePath)
+  return relative.startsWith('..') || path.isAbsolute(relative)
+}
+
+// Checks a path relative to the root against the deny list and every .gitignore on its way
+async function isIgnored(root: string, relativePath: string): Promise<boolean> {
+  const segments = relativePath.split(path.sep)
+  const ignores = (rules: string[], candidate: string) =>
+    !!candidate && (ignore().add(rules).ignores(candidate) || ignore().add(rules).ignores(candidate + '/'))
+
+  if (ignores(getDenyList(root), relativePath))
+    return true
+  for (let depth = 0; depth < segments.length; depth++) {
+    const directory = path.join(root, ...segments.slice(0, depth))
+    const rules = await readIgnoreRules(directory)
+    // every parent directory of the path is checked too, since a file in an ignored directory is ignored
+    for (let end = depth + 1; end <= segments.length; end++)
+      if (rules.length && ignores(rules, segments.slice(depth, end).join('/')))
+        return true
+  }
+  return false
+}
+
+/**
+ * Resolves a file name from a request to a path inside the project.
+ * Rejects absolute paths, paths that escape the root through `..` or through
+ * symlinks, and paths that are gitignored or deny-listed, such as `.env`.
+ * Paths that do not exist yet are allowed, for creating files.
+ *
+ * @param {string} root - The project root.
+ * @param {string} fileName - The requested file name, relative to the root.
+ * @returns {Promise<string>} The absolute path of the file.
+ */
+export async function resolveSandboxedPath(root: string, fileName: string): Promise<string> {
+  if (fileName.includes('\0'))
+    throw new SandboxError('File name contains a null byte', fileName)
+  if (path.isAbsolute(fileName) || /^[a-zA-Z]:/.test(fileName))
+    throw new SandboxError('Absolute paths are not allowed', fileName)
+
+  const filePath = path.resolve(root, fileName)
+  if (isOutside(root, filePath))
+    throw new SandboxError('Path is outside of the project', fileName)
+
+  const realRoot = await fs.promises.realpath(root)
+  const realPath = realpathOfExisting(filePath)
+  if (isOutside(realRoot, realPath))
+    throw new SandboxError('Path resolves outside of the project through a symbolic link', fileName)
+
+  const relativePath = path.relative(root, filePath)
+  if (relativePath && await isIgnored(root, relativePath))
+    throw new SandboxError('Path is ignored or deny-listed', fileName)
+  // a symlink inside the project may still point at an ignored file
+  const realRelativePath = path.relative(realRoot, realPath)
+  if (realRelativePath && realRelativePath !== relativePath && await isIgnored(realRoot, realRelativePath))
+    throw new SandboxError('Path is ignored or deny-listed', fileName)
+
+  return filePath
+}
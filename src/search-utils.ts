@@ -0,0 +1,135 @@
+import fs from 'fs';
+import fuzzy from 'fuzzy';
+import ignore from 'ignore';
+import path from 'path';
+import { getFileList } from './file-utils';
+
+export interface SearchOptions {
+  query: string
+  regex?: boolean
+  caseSensitive?: boolean
+  // gitignore-style patterns, a file must match one of them
+  glob?: string[]
+  context?: number
+  offset?: number
+  limit?: number
+}
+
+export interface SearchMatch {
+  fileName: string
+  line: number
+  column: number
+  text: string
+  before: string[]
+  after: string[]
+}
+
+export interface SearchPage<T> {
+  total: number
+  offset: number
+  limit: number
+  nextOffset?: number
+  results: T[]
+}
+
+export interface FileMatch {
+  fileName: string
+  score: number
+}
+
+// Files larger than this are most likely generated or data, and are skipped
+const MAX_FILE_SIZE = 1024 * 1024
+
+const invalidSearch = (message: string) => Object.assign(new Error(message), { code: 'EINVAL' })
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Lists the files under the root that match the glob patterns, relative to the root
+async function listFiles(root: string, glob?: string[]) {
+  const matcher = glob?.length ? ignore().add(glob) : undefined
+  return (await getFileList(root))
+    .map(file => path.relative(root, file))
+    .filter(file => !matcher || matcher.ignores(file))
+}
+
+function paginate<T>(results: T[], total: number, offset: number, limit: number): SearchPage<T> {
+  return {
+    total,
+    offset,
+    limit,
+    nextOffset: offset + limit < total ? offset + limit : undefined,
+    results,
+  }
+}
+
+/**
+ * Searches the content of the files under a root, the same files listed by /files.
+ * Every match is counted so the total is exact, but only the requested page is kept.
+ *
+ * @param {string} root - The project root.
+ * @param {SearchOptions} options - The query and paging options.
+ * @returns {Promise<SearchPage<SearchMatch>>} One page of matches, file names are relative to the root.
+ */
+export async function searchFiles(root: string, options: SearchOptions): Promise<SearchPage<SearchMatch>> {
+  const { query, regex = false, caseSensitive = false, glob, context = 2, offset = 0, limit = 50 } = options
+  let pattern: RegExp
+  try {
+    pattern = new RegExp(regex ? query : escapeRegExp(query), caseSensitive ? 'g' : 'gi')
+  } catch (err) {
+    throw invalidSearch((err as Error).message)
+  }
+
+  const results: SearchMatch[] = []
+  let total = 0
+  for (const fileName of await listFiles(root, glob)) {
+    const filePath = path.join(root, fileName)
+    const stat = await fs.promises.stat(filePath)
+    if (stat.size > MAX_FILE_SIZE)
+      continue
+    const content = await fs.promises.readFile(filePath, 'utf8')
+    if (content.includes('\0')) // binary file
+      continue
+
+    const lines = content.split(/\r?\n/)
+    lines.forEach((text, index) => {
+      pattern.lastIndex = 0
+      for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        if (total >= offset && results.length < limit)
+          results.push({
+            fileName,
+            line: index + 1,
+            column: match.index + 1,
+            text,
+            before: lines.slice(Math.max(index - context, 0), index),
+            after: lines.slice(index + 1, index + 1 + context),
+          })
+        total++
+        // empty matches would never advance
+        if (!match[0].length)
+          pattern.lastIndex++
+      }
+    })
+  }
+
+  return paginate(results, total, offset, limit)
+}
+
+/**
+ * Fuzzy matches the query against the names of the files under a root,
+ * best matches first.
+ *
+ * @param {string} root - The project root.
+ * @param {SearchOptions} options - The query and paging options, only glob, offset and limit apply.
+ * @returns {Promise<SearchPage<FileMatch>>} One page of matching file names, relative to the root.
+ */
+export async function searchFileNames(root: string, options: SearchOptions): Promise<SearchPage<FileMatch>> {
+  const { query, glob, offset = 0, limit = 50 } = options
+  const matches = fuzzy.filter(query, await listFiles(root, glob))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+  return paginate(
+    matches.slice(offset, offset + limit).map(match => ({ fileName: match.original, score: match.score })),
+    matches.length,
+    offset,
+    limit,
+  )
+}
@@ -0,0 +1,340 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import ignore, { Ignore } from 'ignore';
+import path from 'path';
+import { getFileList } from './file-utils';
+import { logger } from './logger';
+import { describeParseError, findSymbols, isParsableFile } from './parsers';
+import { SymbolFileRef, SymbolRef } from './symbol-utils';
+
+interface IndexEntry {
+  mtimeMs: number
+  hash: string
+  symbols: SymbolRef[]
+  error?: string
+}
+
+interface SymbolIndex {
+  root: string
+  files: Map<string, IndexEntry>
+  // paths reported by the watcher that have not been re-indexed yet
+  dirty: Set<string>
+  ig: Ignore
+  ready: Promise<void>
+  state: 'building' | 'ready' | 'error'
+  // one watcher per directory that is not ignored, a recursive watcher would also put watches on node_modules and .git
+  watchers: Map<string, fs.FSWatcher>
+  // modification times of the directories and .gitignore files at the last scan, an unwatched index rescans when one changes
+  scanned: Map<string, number>
+  flushTimer?: NodeJS.Timeout
+  builtAt?: Date
+  updatedAt?: Date
+}
+
+export interface SymbolIndexStatus {
+  root: string
+  state: SymbolIndex['state']
+  watching: boolean
+  files: number
+  symbols: number
+  pending: number
+  builtAt?: string
+  updatedAt?: string
+  errors: { fileName: string, error: string }[]
+}
+
+// Watcher events usually come in bursts, wait for them to settle before re-indexing
+const FLUSH_DELAY = 100
+
+const indexes = new Map<string, SymbolIndex>()
+
+// Files with a registered parser are indexed
+export const isSourceFile = isParsableFile
+
+const hashContent = (content: string) => crypto.createHash('sha1').update(content).digest('hex')
+
+/**
+ * Brings the index entry of a single file up to date.
+ * Unchanged modification times skip the read, unchanged content hashes skip the parse.
+ */
+async function indexFile(index: SymbolIndex, file: string) {
+  const stat = await fs.promises.stat(file).catch(() => undefined)
+  if (!stat?.isFile() || !isSourceFile(file)) {
+    index.files.delete(file)
+    return
+  }
+  const entry = index.files.get(file)
+  if (entry?.mtimeMs === stat.mtimeMs)
+    return
+
+  const content = await fs.promises.readFile(file, 'utf8')
+  const hash = hashContent(content)
+  if (entry?.hash === hash) {
+    entry.mtimeMs = stat.mtimeMs
+    return
+  }
+  try {
+    const symbols = findSymbols(content, file)
+    index.files.set(file, { mtimeMs: stat.mtimeMs, hash, symbols })
+  } catch (err) {
+    index.files.set(file, { mtimeMs: stat.mtimeMs, hash, symbols: [], error: describeParseError(err) })
+  }
+}
+
+const isIgnored = (index: SymbolIndex, relativePath: string) =>
+  index.ig.ignores(relativePath) || index.ig.ignores(relativePath + '/')
+
+// The directories under a directory that are not ignored, itself included
+async function listDirectories(index: SymbolIndex, directory: string): Promise<string[]> {
+  const directories = [directory]
+  const entries = await fs.promises.readdir(directory, { withFileTypes: true }).catch(() => [])
+  for (const entry of entries) {
+    const fullPath = path.join(directory, entry.name)
+    if (entry.isDirectory() && !isIgnored(index, path.relative(index.root, fullPath)))
+      directories.push(...await listDirectories(index, fullPath))
+  }
+  return directories
+}
+
+const mtimeOf = (filePath: string) => fs.promises.stat(filePath).then(stat => stat.mtimeMs, () => undefined)
+
+// Walks the whole tree, re-indexing changed files and dropping the ones that are gone
+async function scan(index: SymbolIndex) {
+  const ig = ignore()
+  const files = (await getFileList(index.root, index.root, ig)).filter(isSourceFile)
+  index.ig = ig
+  for (const file of files)
+    await indexFile(index, file)
+  const existing = new Set(files)
+  for (const file of index.files.keys())
+    if (!existing.has(file))
+      index.files.delete(file)
+
+  index.scanned = new Map()
+  for (const directory of await listDirectories(index, index.root))
+    for (const scannedPath of [directory, path.join(directory, '.gitignore')]) {
+      const mtimeMs = await mtimeOf(scannedPath)
+      if (mtimeMs !== undefined)
+        index.scanned.set(scannedPath, mtimeMs)
+    }
+  index.updatedAt = new Date()
+}
+
+/**
+ * Brings an index that is not watched up to date. Adding, removing or renaming
+ * a file changes the modification time of its directory, so the tree is only
+ * rescanned when a directory or a .gitignore changed; otherwise the indexed
+ * files are checked one by one.
+ */
+async function refresh(index: SymbolIndex) {
+  for (const [scannedPath, mtimeMs] of index.scanned)
+    if (await mtimeOf(scannedPath) !== mtimeMs)
+      return scan(index)
+  for (const file of [...index.files.keys()])
+    await indexFile(index, file)
+}
+
+function closeWatchers(index: SymbolIndex) {
+  for (const watcher of index.watchers.values())
+    watcher.close()
+  index.watchers.clear()
+}
+
+function watchDirectory(index: SymbolIndex, directory: string) {
+  if (index.watchers.has(directory))
+    return
+  const watcher = fs.watch(directory, (event, fileName) => onWatchEvent(index, directory, fileName))
+  watcher.on('error', err => {
+    watcher.close()
+    index.watchers.delete(directory)
+    // a removed directory is dropped by the next flush, any other failure stops the watching
+    if (fs.existsSync(directory)) {
+      logger.error(`Symbol index watcher failed, falling back to rescanning: ${err}`)
+      closeWatchers(index)
+    }
+  })
+  index.watchers.set(directory, watcher)
+}
+
+/**
+ * Watches every directory of the tree that is not ignored, and stops watching
+ * the ones that are gone or became ignored. When a watch cannot be set up,
+ * e.g. because the system ran out of inotify watches, the index falls back to
+ * rescanning on request.
+ */
+async function syncWatchers(index: SymbolIndex) {
+  const directories = new Set(await listDirectories(index, index.root))
+  for (const [directory, watcher] of index.watchers)
+    if (!directories.has(directory)) {
+      watcher.close()
+      index.watchers.delete(directory)
+    }
+  try {
+    for (const directory of directories)
+      watchDirectory(index, directory)
+  } catch (err) {
+    logger.error(`Symbol index watcher failed, falling back to rescanning: ${err}`)
+    closeWatchers(index)
+  }
+}
+
+// Re-indexes the paths reported by the watcher since the last flush
+async function flush(index: SymbolIndex) {
+  clearTimeout(index.flushTimer)
+  const paths = [...index.dirty]
+  index.dirty.clear()
+  if (!paths.length)
+    return
+
+  // ignore rules changed, every file may be affected
+  if (paths.some(changed => path.basename(changed) === '.gitignore')) {
+    await scan(index)
+    return syncWatchers(index)
+  }
+
+  let directoriesChanged = false
+  for (const changed of paths) {
+    if (await fs.promises.stat(changed).then(stat => stat.isDirectory(), () => false)) {
+      for (const file of (await getFileList(changed, index.root, index.ig)).filter(isSourceFile))
+        await indexFile(index, file)
+      directoriesChanged = true
+      continue
+    }
+    directoriesChanged ||= index.watchers.has(changed)
+    await indexFile(index, changed)
+    // a removed directory only produces an event for itself
+    for (const file of index.files.keys())
+      if (file.startsWith(changed + path.sep) && !fs.existsSync(file))
+        index.files.delete(file)
+  }
+  if (directoriesChanged && index.watchers.size)
+    await syncWatchers(index)
+  index.updatedAt = new Date()
+}
+
+function onWatchEvent(index: SymbolIndex, directory: string, fileName: string | null) {
+  if (!fileName)
+    return
+  const relativePath = path.relative(index.root, path.join(directory, fileName.toString()))
+  if (isIgnored(index, relativePath) && path.basename(relativePath) !== '.gitignore')
+    return
+  index.dirty.add(path.join(index.root, relativePath))
+  clearTimeout(index.flushTimer)
+  index.flushTimer = setTimeout(() => {
+    flush(index).catch(err => logger.error(`Failed to update symbol index: ${err}`))
+  }, FLUSH_DELAY)
+  index.flushTimer.unref()
+}
+
+/**
+ * Returns the symbol index of a project root, building it on first use.
+ *
+ * @param {string} root - The project root.
+ */
+function getIndex(root: string): SymbolIndex {
+  let index = indexes.get(root)
+  if (!index) {
+    const created: SymbolIndex = {
+      root,
+      files: new Map(),
+      dirty: new Set(),
+      ig: ignore(),
+      watchers: new Map(),
+      scanned: new Map(),
+      ready: Promise.resolve(),
+      state: 'building',
+    }
+    created.ready = scan(created).then(
+      () => {
+        created.state = 'ready'
+        created.builtAt = new Date()
+        logger.info(`Symbol index built for ${root} with ${created.files.size} files`)
+      },
+      err => {
+        created.state = 'error'
+        // forget the failed index so the next request tries again
+        indexes.delete(root)
+        throw err
+      })
+    // status requests do not wait for the build, keep a failure from becoming an unhandled rejection
+    created.ready.catch(() => undefined)
+    indexes.set(root, created)
+    index = created
+  }
+  return index
+}
+
+/**
+ * Builds the symbol index of a project root and keeps it up to date
+ * with a watcher on every directory that is not ignored.
+ *
+ * @param {string} root - The project root.
+ */
+export async function startSymbolIndex(root: string) {
+  const index = getIndex(root)
+  await index.ready
+  if (!index.watchers.size)
+    await syncWatchers(index)
+}
+
+/**
+ * Stops watching a project root, the index itself is kept.
+ *
+ * @param {string} root - The project root.
+ */
+export function stopSymbolIndex(root: string) {
+  const index = indexes.get(root)
+  clearTimeout(index?.flushTimer)
+  if (index)
+    closeWatchers(index)
+}
+
+/**
+ * Lists the symbols of every parsable file under a project root, or of a single file,
+ * from the in-memory index. Pending watcher events are applied first; when the root is
+ * not watched, the files are checked for changes and the tree is only rescanned when a
+ * directory changed.
+ *
+ * @param {string} root - The project root.
+ * @param {string} fileName - Optional file, relative to the root.
+ * @returns {Promise<SymbolFileRef[]>} The symbols, grouped by file. Files that fail to parse carry an error instead.
+ */
+export async function getIndexedSymbolList(root: string, fileName?: string): Promise<SymbolFileRef[]> {
+  const index = getIndex(root)
+  await index.ready
+  if (index.watchers.size)
+    await flush(index)
+  else
+    await refresh(index)
+
+  const actualFileName = fileName ? path.join(root, fileName) : undefined
+  const symbolList: SymbolFileRef[] = []
+  for (const [file, entry] of index.files)
+    if (!actualFileName || actualFileName === file)
+      symbolList.push({ fileName: file, symbols: entry.symbols, ...(entry.error ? { error: entry.error } : {}) })
+  return symbolList
+}
+
+/**
+ * Describes how fresh the symbol index of a project root is.
+ *
+ * @param {string} root - The project root.
+ * @returns {SymbolIndexStatus} The index status.
+ */
+export function getSymbolIndexStatus(root: string): SymbolIndexStatus {
+  const index = getIndex(root)
+  const entries = [...index.files.entries()]
+  return {
+    root,
+    state: index.state,
+    watching: index.watchers.size > 0,
+    files: entries.length,
+    symbols: entries.reduce((count, [, entry]) => count + entry.symbols.length, 0),
+    pending: index.dirty.size,
+    builtAt: index.builtAt?.toISOString(),
+    updatedAt: index.updatedAt?.toISOString(),
+    errors: entries
+      .filter(([, entry]) => entry.error)
+      .map(([fileName, entry]) => ({ fileName: path.relative(root, fileName), error: entry.error ?? '' })),
+  }
+}
@@ -0,0 +1,190 @@
+import { AST, AST_NODE_TYPES, TSESTree } from '@typescript-eslint/typescript-estree';
+import { byteOffsetsOf } from './file-utils';
+
+export type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'namespace'
+
+export interface SymbolRef {
+  name: string
+  qualifiedName: string
+  kind: SymbolKind
+  exported: boolean
+  line: number
+  column: number
+  startByte: number
+  endByte: number
+}
+
+export interface SymbolFileRef {
+  fileName: string
+  symbols: SymbolRef[]
+  // why the file could not be parsed, its symbols are then empty
+  error?: string
+}
+
+// The scope a node is visited in: the qualified name prefix and whether it is reachable through an export
+interface Scope {
+  prefix: string
+  exported: boolean
+}
+
+// Returns the name of a property or method key, undefined for computed keys
+function keyName(key: TSESTree.Node, computed: boolean): string | undefined {
+  if (computed)
+    return
+  if (AST_NODE_TYPES.Identifier === key.type)
+    return key.name
+  if (AST_NODE_TYPES.PrivateIdentifier === key.type)
+    return '#' + key.name
+  if (AST_NODE_TYPES.Literal === key.type)
+    return String(key.value)
+}
+
+const isFunction = (node: TSESTree.Node | null | undefined): node is TSESTree.FunctionExpression | TSESTree.ArrowFunctionExpression =>
+  AST_NODE_TYPES.FunctionExpression === node?.type || AST_NODE_TYPES.ArrowFunctionExpression === node?.type
+
+/**
+ * Walks a parsed file and collects every named declaration in it, including
+ * class members, object literal methods, functions nested in other functions
+ * and namespace members. Names are qualified with their containers, e.g. `Class.method`.
+ *
+ * Declarations keep the range of their whole statement (including `export`
+ * and `const`), so the range can be used to replace the declaration as a unit.
+ * Ranges are UTF-8 byte offsets into the content.
+ *
+ * @param {AST} ast - The parsed file, with ranges and locations.
+ * @param {string} content - The content the file was parsed from.
+ * @returns {SymbolRef[]} The symbols in source order.
+ */
+export function findSymbolsInFile(ast: AST<{range:true,loc:true}>, content: string): SymbolRef[] {
+  const symbols: SymbolRef[] = []
+  const toByte = byteOffsetsOf(content)
+
+  // names exported with `export { foo }` or `export default foo` after their declaration
+  const exportedNames = new Set<string>()
+  for (const node of ast.body) {
+    if (AST_NODE_TYPES.ExportNamedDeclaration === node.type && !node.declaration && !node.source)
+      for (const specifier of node.specifiers)
+        exportedNames.add(specifier.local.name)
+    if (AST_NODE_TYPES.ExportDefaultDeclaration === node.type && AST_NODE_TYPES.Identifier === node.declaration.type)
+      exportedNames.add(node.declaration.name)
+    if (AST_NODE_TYPES.TSExportAssignment === node.type && AST_NODE_TYPES.Identifier === node.expression.type)
+      exportedNames.add(node.expression.name)
+  }
+
+  const add = (name: string, kind: SymbolKind, scope: Scope, range: TSESTree.Node) => {
+    const qualifiedName = scope.prefix ? `${scope.prefix}.${name}` : name
+    const exported = scope.exported || (!scope.prefix && exportedNames.has(name))
+    symbols.push({
+      name,
+      qualifiedName,
+      kind,
+      exported,
+      line: range.loc.start.line,
+      column: range.loc.start.column + 1,
+      startByte: toByte(range.range[0]),
+      endByte: toByte(range.range[1]),
+    })
+    return { prefix: qualifiedName, exported }
+  }
+
+  const visitFunctionBody = (fn: TSESTree.FunctionLike, scope: Scope) => {
+    // functions nested in a function are never exported themselves
+    if (fn.body && AST_NODE_TYPES.BlockStatement === fn.body.type)
+      visitStatements(fn.body.body, { ...scope, exported: false })
+  }
+
+  const visitObject = (object: TSESTree.ObjectExpression, scope: Scope) => {
+    for (const property of object.properties) {
+      if (AST_NODE_TYPES.Property !== property.type)
+        continue
+      const name = keyName(property.key, property.computed)
+      if (!name)
+        continue
+      if (isFunction(property.value))
+        visitFunctionBody(property.value, add(name, 'method', scope, property))
+      else if (AST_NODE_TYPES.ObjectExpression === property.value.type)
+        visitObject(property.value, { ...scope, prefix: `${scope.prefix}.${name}` })
+    }
+  }
+
+  const visitClass = (node: TSESTree.ClassDeclaration | TSESTree.ClassExpression, name: string, scope: Scope, range: TSESTree.Node) => {
+    const classScope = add(name, 'class', scope, range)
+    for (const member of node.body.body) {
+      if (AST_NODE_TYPES.MethodDefinition === member.type || AST_NODE_TYPES.TSAbstractMethodDefinition === member.type) {
+        const memberName = keyName(member.key, member.computed)
+        if (memberName)
+          visitFunctionBody(member.value, add(memberName, 'method', classScope, member))
+      }
+      if (AST_NODE_TYPES.PropertyDefinition === member.type && isFunction(member.value)) {
+        const memberName = keyName(member.key, member.computed)
+        if (memberName)
+          visitFunctionBody(member.value, add(memberName, 'method', classScope, member))
+      }
+    }
+  }
+
+  // `range` is the statement that owns the declaration, e.g. the surrounding `export`
+  const visitDeclaration = (node: TSESTree.Node, scope: Scope, range: TSESTree.Node = node) => {
+    switch (node.type) {
+      case AST_NODE_TYPES.FunctionDeclaration:
+        visitFunctionBody(node, add(node.id?.name ?? (range.type === AST_NODE_TYPES.ExportDefaultDeclaration ? 'default' : 'anonymous'), 'function', scope, range))
+        break
+      case AST_NODE_TYPES.ArrowFunctionExpression:
+      case AST_NODE_TYPES.FunctionExpression:
+        // only reached through `export default`
+        visitFunctionBody(node, add('default', 'function', scope, range))
+        break
+      case AST_NODE_TYPES.ClassDeclaration:
+      case AST_NODE_TYPES.ClassExpression:
+        visitClass(node, node.id?.name ?? 'default', scope, range)
+        break
+      case AST_NODE_TYPES.VariableDeclaration:
+        for (const declarator of node.declarations) {
+          if (AST_NODE_TYPES.Identifier !== declarator.id.type)
+            continue
+          const name = declarator.id.name
+          if (isFunction(declarator.init))
+            visitFunctionBody(declarator.init, add(name, 'function', scope, range))
+          else if (AST_NODE_TYPES.ClassExpression === declarator.init?.type)
+            visitClass(declarator.init, name, scope, range)
+          else if (AST_NODE_TYPES.ObjectExpression === declarator.init?.type)
+            visitObject(declarator.init, { prefix: scope.prefix ? `${scope.prefix}.${name}` : name, exported: scope.exported || (!scope.prefix && exportedNames.has(name)) })
+        }
+        break
+      case AST_NODE_TYPES.TSInterfaceDeclaration:
+        add(node.id.name, 'interface', scope, range)
+        break
+      case AST_NODE_TYPES.TSTypeAliasDeclaration:
+        add(node.id.name, 'type', scope, range)
+        break
+      case AST_NODE_TYPES.TSEnumDeclaration:
+        add(node.id.name, 'enum', scope, range)
+        break
+      case AST_NODE_TYPES.TSModuleDeclaration: {
+        const name = AST_NODE_TYPES.Identifier === node.id.type ? node.id.name : String(node.id.value)
+        const moduleScope = add(name, 'namespace', scope, range)
+        // `namespace A.B {}` nests the declaration of B as the body of A
+        if (node.body && AST_NODE_TYPES.TSModuleDeclaration === node.body.type)
+          visitDeclaration(node.body, moduleScope)
+        else if (node.body)
+          visitStatements(node.body.body, { ...moduleScope, exported: false }, moduleScope.exported)
+        break
+      }
+    }
+  }
+
+  // `exportable` is set for namespace bodies, where an `export` keeps the container's export status
+  const visitStatements = (statements: TSESTree.Node[], scope: Scope, exportable = !scope.prefix) => {
+    for (const statement of statements) {
+      if (AST_NODE_TYPES.ExportNamedDeclaration === statement.type && statement.declaration)
+        visitDeclaration(statement.declaration, { ...scope, exported: exportable }, statement)
+      else if (AST_NODE_TYPES.ExportDefaultDeclaration === statement.type)
+        visitDeclaration(statement.declaration, { ...scope, exported: exportable }, statement)
+      else
+        visitDeclaration(statement, scope)
+    }
+  }
+
+  visitStatements(ast.body, { prefix: '', exported: false })
+  return symbols
+}
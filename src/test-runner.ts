@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCommand } from './cmd-runner';
+import { formatCommandLine } from './command-policy';
+import { createStateDirectory, getStateDirectory, writeFileAtomic } from './file-utils';
+
+// Where the last run is kept, in the state directory of the project
+const lastRunPath = (root: string) => path.join(getStateDirectory(root), 'test-run.json')
+
+export interface TestRunOptions {
+  // a test file, or a source file to run the tests that depend on it
+  fileName?: string
+  testNamePattern?: string
+  // only the tests related to files changed since the last commit
+  changed?: boolean
+  coverage?: boolean
+}
+
+export interface TestFailure {
+  message: string
+  // where the failure was raised, the first stack frame inside the project
+  fileName?: string
+  line?: number
+  column?: number
+}
+
+export interface TestCaseResult {
+  name: string
+  ancestors: string[]
+  status: string
+  duration: number | null
+  // where the test is declared
+  line?: number
+  failures: TestFailure[]
+}
+
+export interface TestSuiteResult {
+  fileName: string
+  status: string
+  duration: number | null
+  // why the suite failed as a whole, e.g. a syntax error in the test file
+  message?: string
+  tests: TestCaseResult[]
+}
+
+export interface CoverageCounts {
+  total: number
+  covered: number
+  pct: number
+}
+
+export interface FileCoverage {
+  fileName: string
+  lines: CoverageCounts
+  statements: CoverageCounts
+  functions: CoverageCounts
+  branches: CoverageCounts
+}
+
+export interface TestRun {
+  command: string
+  exitCode: number | null
+  success: boolean
+  startedAt: string
+  finishedAt: string
+  numTotalTests: number
+  numPassedTests: number
+  numFailedTests: number
+  numPendingTests: number
+  numTotalTestSuites: number
+  numFailedTestSuites: number
+  suites: TestSuiteResult[]
+  coverage?: {
+    total: Omit<FileCoverage, 'fileName'>
+    files: FileCoverage[]
+  }
+}
+
+// The parts of jest's --json report read here
+interface JestReport {
+  success: boolean
+  numTotalTests: number
+  numPassedTests: number
+  numFailedTests: number
+  numPendingTests: number
+  numTotalTestSuites: number
+  numFailedTestSuites: number
+  testResults: JestSuiteReport[]
+}
+
+interface JestSuiteReport {
+  name: string
+  status: string
+  startTime?: number
+  endTime?: number
+  message: string
+  assertionResults: JestTestReport[]
+}
+
+interface JestTestReport {
+  fullName: string
+  ancestorTitles: string[]
+  status: string
+  duration?: number | null
+  location?: { line: number, column: number } | null
+  failureMessages: string[]
+}
+
+// The json-summary coverage report, keyed by absolute file name and 'total'
+interface CoverageSummary {
+  [fileName: string]: { [metric in 'lines' | 'statements' | 'functions' | 'branches']: CoverageSummaryCounts }
+}
+
+// Percentages of files without anything to cover are reported as "Unknown"
+type CoverageSummaryCounts = Omit<CoverageCounts, 'pct'> & { pct: number | 'Unknown' }
+
+// the escape character starts every color code
+// eslint-disable-next-line no-control-regex
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, '')
+
+// Stack frames of jest and node itself say nothing about the failing code
+const trimStack = (message: string) => message
+  .split('\n')
+  .filter(line => !/^\s+at .*(node_modules|node:internal|<anonymous>)/.test(line))
+  .join('\n')
+
+/**
+ * Finds where a failure was raised: the first stack frame in a project file,
+ * outside of node_modules.
+ *
+ * @param {string} root - The project root.
+ * @param {string} message - The failure message with its stack.
+ */
+function locateFailure(root: string, message: string): Omit<TestFailure, 'message'> {
+  for (const match of message.matchAll(/\(?((?:[a-zA-Z]:)?[^\s():]+):(\d+):(\d+)\)?$/gm)) {
+    const filePath = path.resolve(root, match[1])
+    const fileName = path.relative(root, filePath)
+    if (!fileName.startsWith('..') && !path.isAbsolute(fileName) && !fileName.split(path.sep).includes('node_modules'))
+      return { fileName, line: +match[2], column: +match[3] }
+  }
+  return {}
+}
+
+const toCounts = ({ total, covered, pct }: CoverageSummaryCounts): CoverageCounts => ({ total, covered, pct: typeof pct === 'number' ? pct : 100 })
+
+const toFileCoverage = (file: CoverageSummary[string]): Omit<FileCoverage, 'fileName'> => ({
+  lines: toCounts(file.lines),
+  statements: toCounts(file.statements),
+  functions: toCounts(file.functions),
+  branches: toCounts(file.branches),
+})
+
+/**
+ * Runs the project's jest with its JSON reporter and turns the report into
+ * per-suite and per-test results, with the failure messages and where they
+ * were raised, and a coverage summary per file when asked for. The run is kept
+ * in the state directory of the project, so it can be read again with getLastTestRun.
+ *
+ * @param {string} root - The project root.
+ * @param {TestRunOptions} options - Which tests to run.
+ * @throws {Error} ETESTS when jest did not produce a report, e.g. when it is not installed.
+ */
+export async function runTests(root: string, options: TestRunOptions = {}): Promise<TestRun> {
+  const outputDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'code-plugin-tests-'))
+  const reportFile = path.join(outputDir, `${crypto.randomUUID()}.json`)
+  const args = ['--json', `--outputFile=${reportFile}`, '--passWithNoTests', '--testLocationInResults']
+  if (options.fileName)
+    args.push('--findRelatedTests', options.fileName)
+  if (options.testNamePattern)
+    args.push(`--testNamePattern=${options.testNamePattern}`)
+  if (options.changed)
+    args.push('--onlyChanged')
+  if (options.coverage)
+    args.push('--coverage', '--coverageReporters=json-summary', `--coverageDirectory=${outputDir}`)
+  const command = formatCommandLine(['npx', '--no-install', 'jest', ...args])
+
+  const startedAt = new Date().toISOString()
+  try {
+    const { exitCode, stderr } = await runCommand(command, root, false)
+    const report: JestReport | undefined = await fs.promises.readFile(reportFile, 'utf8').then(JSON.parse, () => undefined)
+    if (!report)
+      throw Object.assign(new Error(`jest did not report any results: ${stripAnsi(stderr).trim().split('\n').slice(-20).join('\n')}`), { code: 'ETESTS' })
+
+    const run: TestRun = {
+      command: ['jest', ...args.filter(arg => !arg.includes(outputDir))].join(' '),
+      exitCode,
+      success: !!report.success,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      numTotalTests: report.numTotalTests,
+      numPassedTests: report.numPassedTests,
+      numFailedTests: report.numFailedTests,
+      numPendingTests: report.numPendingTests,
+      numTotalTestSuites: report.numTotalTestSuites,
+      numFailedTestSuites: report.numFailedTestSuites,
+      suites: report.testResults.map((suite): TestSuiteResult => ({
+        fileName: path.relative(root, suite.name),
+        status: suite.status,
+        duration: suite.endTime && suite.startTime ? suite.endTime - suite.startTime : null,
+        // the suite message repeats every test failure, it only adds something when no test ran
+        ...(suite.status === 'failed' && !suite.assertionResults.length ? { message: stripAnsi(suite.message) } : {}),
+        tests: suite.assertionResults.map((test): TestCaseResult => ({
+          name: test.fullName,
+          ancestors: test.ancestorTitles,
+          status: test.status,
+          duration: test.duration ?? null,
+          ...(test.location ? { line: test.location.line } : {}),
+          failures: test.failureMessages.map(message => ({
+            message: trimStack(stripAnsi(message)),
+            ...locateFailure(root, stripAnsi(message)),
+          })),
+        })),
+      })),
+    }
+    if (options.coverage) {
+      const summary: CoverageSummary | undefined = await fs.promises.readFile(path.join(outputDir, 'coverage-summary.json'), 'utf8').then(JSON.parse, () => undefined)
+      if (summary)
+        run.coverage = {
+          total: toFileCoverage(summary.total),
+          files: Object.entries(summary)
+            .filter(([fileName]) => fileName !== 'total')
+            .map(([fileName, file]) => ({ fileName: path.relative(root, fileName), ...toFileCoverage(file) })),
+        }
+    }
+
+    await createStateDirectory(root)
+    await writeFileAtomic(lastRunPath(root), JSON.stringify(run))
+    return run
+  } finally {
+    await fs.promises.rm(outputDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Reads the results of the last test run of the project, undefined when tests never ran.
+ *
+ * @param {string} root - The project root.
+ */
+export async function getLastTestRun(root: string): Promise<TestRun | undefined> {
+  try {
+    return JSON.parse(await fs.promises.readFile(lastRunPath(root), 'utf8'))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT')
+      return
+    throw err
+  }
+}
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readBatch, toBatchItem } from '../src/batch-read';
+
+describe('readBatch', () => {
+  let root: string
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'batch-')))
+    fs.mkdirSync(path.join(root, 'src'))
+    fs.writeFileSync(path.join(root, 'src', 'a.ts'), 'const é = 1\n\nexport function greet() {\n  return "héllo"\n}\n')
+    fs.writeFileSync(path.join(root, 'src', 'bad.ts'), 'export function f() {}\nconst = 1\n')
+    fs.writeFileSync(path.join(root, 'notes.txt'), 'one\ntwo\nthree\nfour\n')
+    fs.writeFileSync(path.join(root, '.env'), 'SECRET=1\n')
+  })
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('splits file#function strings on the last #', () => {
+    expect(toBatchItem('src/a.ts#greet')).toEqual({ fileName: 'src/a.ts', functionName: 'greet' })
+    expect(toBatchItem('dir#1/a.ts')).toEqual({ fileName: 'dir', functionName: '1/a.ts' })
+    expect(toBatchItem('#a.ts')).toEqual({ fileName: '#a.ts' })
+    expect(toBatchItem({ fileName: 'a.ts', startLine: 2 })).toEqual({ fileName: 'a.ts', startLine: 2 })
+  })
+
+  it('reads files, functions and line ranges in request order', async () => {
+    const batch = await readBatch(root, [
+      { fileName: 'src/a.ts', functionName: 'greet' },
+      { fileName: 'notes.txt', startLine: 2, endLine: 3 },
+      { fileName: 'notes.txt' },
+    ])
+    expect(batch.items.map(item => 'content' in item && item.content)).toEqual([
+      'export function greet() {\n  return "héllo"\n}',
+      'two\nthree\n',
+      'one\ntwo\nthree\nfour\n',
+    ])
+    expect(batch.items[0]).toMatchObject({ index: 0, startLine: 3, endLine: 5 })
+    expect(batch).toMatchObject({ omitted: [], truncated: false, totalChars: 73 })
+  })
+
+  it('gives failing items an error of their own, without using the budget', async () => {
+    const batch = await readBatch(root, [
+      { fileName: 'missing.ts' },
+      { fileName: 'src' },
+      { fileName: 'src/a.ts', functionName: 'nope' },
+      { fileName: 'src/bad.ts', functionName: 'f' },
+      { fileName: '.env' },
+      { fileName: '../outside.txt' },
+      { fileName: 'notes.txt', startLine: 9 },
+    ], 10)
+    expect(batch.items.map(item => 'error' in item ? item.error : item.content)).toEqual([
+      'File not found',
+      'Is a directory, list it with GET /files/{fileName}',
+      'Function nope not found',
+      'Syntax error: Variable declaration expected. (line 2, column 7)',
+      expect.stringMatching(/ignored or deny-listed/),
+      expect.stringMatching(/outside of the project/),
+      'startLine is past the end of the file (4 lines)',
+    ])
+    expect(batch).toMatchObject({ totalChars: 0, truncated: false })
+  })
+
+  it('cuts the item that does not fit at a whole line and omits the rest', async () => {
+    const batch = await readBatch(root, [{ fileName: 'notes.txt' }, 'notes.txt', 'src/a.ts#greet'].map(toBatchItem), 30)
+    const [first, second] = batch.items
+    expect(first).toMatchObject({ content: 'one\ntwo\nthree\nfour\n', truncated: false })
+    expect(second).toMatchObject({ content: 'one\ntwo\n', truncated: true, cursor: expect.any(String) })
+    expect(batch.omitted).toEqual([{ index: 2, fileName: 'src/a.ts', functionName: 'greet' }])
+    expect(batch).toMatchObject({ totalChars: 27, maxChars: 30, truncated: true })
+  })
+})
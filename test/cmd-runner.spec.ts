@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { formatCommandLine } from '../src/command-policy';
+
+describe('command jobs', () => {
+  let runner: typeof import('../src/cmd-runner')
+  let root: string
+  const started: string[] = []
+
+  // a node command, it runs without a shell
+  const node = (script: string) => formatCommandLine([process.execPath, '-e', script])
+
+  const start = (script: string, base_path = root) => {
+    const id = runner.startJob(node(script), base_path, false)
+    started.push(id)
+    return id
+  }
+
+  const finished = async (id: string) => {
+    for (let i = 0; i < 200; i++) {
+      const job = runner.getJob(root, id)
+      if (job?.finishedAt)
+        return job
+      await new Promise(resolve => setTimeout(resolve, 50))
+    }
+    throw new Error(`Job ${id} did not finish`)
+  }
+
+  beforeAll(async () => {
+    // the limits are read when the module loads
+    process.env.MAX_JOB_OUTPUT = '100'
+    process.env.MAX_RUNNING_JOBS = '2'
+    runner = await import('../src/cmd-runner')
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-')))
+  })
+
+  afterAll(async () => {
+    started.forEach(id => runner.cancelJob(root, id))
+    delete process.env.MAX_JOB_OUTPUT
+    delete process.env.MAX_RUNNING_JOBS
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('runs a command and buffers its output', async () => {
+    const result = await runner.runCommand(node('console.log("out"); console.error("err"); process.exit(3)'), root, false)
+    expect(result).toEqual({ exitCode: 3, stdout: 'out\n', stderr: 'err\n' })
+  })
+
+  it('refuses commands outside of the policy in strict mode', () => {
+    expect(() => runner.startJob('rm -rf .', root)).toThrow(expect.objectContaining({ code: 'EPOLICY' }))
+  })
+
+  it('reports the exit status and the output of a job from an offset', async () => {
+    const id = start('process.stdout.write("hello "); process.stdout.write("world"); process.stderr.write("oops")')
+    const job = await finished(id)
+    expect(job).toMatchObject({ status: 'exited', exitCode: 0, signal: null })
+    expect(job.stdout).toEqual({ offset: 0, nextOffset: 11, data: 'hello world', truncated: false })
+    expect(job.stderr.data).toBe('oops')
+
+    const next = runner.getJob(root, id, 6, 4)
+    expect(next?.stdout).toEqual({ offset: 6, nextOffset: 11, data: 'world', truncated: false })
+    expect(next?.stderr).toEqual({ offset: 4, nextOffset: 4, data: '', truncated: false })
+  })
+
+  it('keeps only the last MAX_JOB_OUTPUT characters and says what was dropped', async () => {
+    const job = await finished(start('process.stdout.write("a".repeat(150) + "b".repeat(100))'))
+    expect(job.stdout).toEqual({ offset: 150, nextOffset: 250, data: 'b'.repeat(100), truncated: true })
+    expect(runner.getJob(root, job.id, 200)?.stdout).toEqual({ offset: 200, nextOffset: 250, data: 'b'.repeat(50), truncated: false })
+  })
+
+  it('cancels a running job', async () => {
+    const id = start('setInterval(() => {}, 1000)')
+    expect(runner.getJob(root, id)?.status).toBe('running')
+    expect(runner.cancelJob(root, id)).toBe(true)
+    const job = await finished(id)
+    expect(job).toMatchObject({ status: 'cancelled', signal: 'SIGTERM' })
+    expect(runner.cancelJob(root, 'no-such-job')).toBe(false)
+  })
+
+  it('reports jobs whose executable cannot start as failed', async () => {
+    const id = runner.startJob('no-such-executable-here', root, false)
+    const job = await finished(id)
+    expect(job).toMatchObject({ status: 'failed', exitCode: null })
+    expect(job.error).toMatch(/ENOENT/)
+  })
+
+  it('limits the jobs running at the same time', async () => {
+    const ids = [start('setInterval(() => {}, 1000)'), start('setInterval(() => {}, 1000)')]
+    expect(() => start('setInterval(() => {}, 1000)')).toThrow(expect.objectContaining({ code: 'EBUSY' }))
+    ids.forEach(id => runner.cancelJob(root, id))
+    await Promise.all(ids.map(finished))
+  })
+
+  it('only finds a job in the project it was started in', async () => {
+    const id = start('')
+    await finished(id)
+    expect(runner.getJob(os.tmpdir(), id)).toBeUndefined()
+    expect(runner.cancelJob(os.tmpdir(), id)).toBe(false)
+  })
+})
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkCommandPolicy, CommandDeniedError, formatCommandLine, parseCommandLine, POLICY_FILE } from '../src/command-policy';
+
+describe('parseCommandLine', () => {
+  it('splits arguments with quotes and escapes', () => {
+    expect(parseCommandLine(`npx jest -t "adds two" "it's" 'say "hi"' a\\ b "\\"q\\""`)).toEqual(['npx', 'jest', '-t', 'adds two', "it's", 'say "hi"', 'a b', '"q"'])
+    expect(parseCommandLine('npm  test ""')).toEqual(['npm', 'test', ''])
+  })
+
+  it('refuses shell operators and unterminated quotes', () => {
+    for (const command of ['npm test; rm -rf /', 'npm test | cat', 'echo $HOME', 'echo `id`', 'npm test > out', 'npm test && ls'])
+      expect(() => parseCommandLine(command)).toThrow(expect.objectContaining({ code: 'EINVAL' }))
+    expect(() => parseCommandLine('echo "open')).toThrow('Unterminated quote')
+  })
+
+  it('formats arguments so they parse back the same', () => {
+    const argv = ['npx', 'jest', '-t', 'a "quoted" name', 'back\\slash', 'src/a.spec.ts', '$HOME;']
+    expect(parseCommandLine(formatCommandLine(argv))).toEqual(argv)
+  })
+})
+
+describe('checkCommandPolicy', () => {
+  let base: string
+  let root: string
+
+  const allows = (command: string) => expect(() => checkCommandPolicy(parseCommandLine(command), root)).not.toThrow()
+  const denial = (command: string) => {
+    try {
+      checkCommandPolicy(parseCommandLine(command), root)
+    } catch (err) {
+      return err as CommandDeniedError
+    }
+    throw new Error(`${command} was allowed`)
+  }
+
+  beforeAll(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'policy-')))
+    root = path.join(base, 'project')
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true })
+    fs.mkdirSync(path.join(base, 'outside'))
+    fs.writeFileSync(path.join(root, 'src', 'a.spec.ts'), '')
+    fs.symlinkSync(path.join(base, 'outside'), path.join(root, 'escape'))
+  })
+
+  afterAll(() => {
+    fs.rmSync(base, { recursive: true, force: true })
+  })
+
+  it('allows only the default commands without a policy file', () => {
+    allows('npm test')
+    allows('yarn install')
+    expect(denial('npm run build').failures.map(({ rule }) => rule)).toContain('npm test')
+    expect(denial('rm -rf .')).toMatchObject({ code: 'EPOLICY', failures: [], message: 'Executable "rm" is not allowed.' })
+  })
+
+  describe('with a policy file', () => {
+    beforeAll(() => {
+      fs.mkdirSync(path.join(root, path.dirname(POLICY_FILE)), { recursive: true })
+      fs.writeFileSync(path.join(root, POLICY_FILE), JSON.stringify({
+        commands: [
+          { executable: 'npm', args: ['run', '{lint,test}'] },
+          { name: 'jest', executable: 'npx', args: ['jest', '--coverage...', '<path>...'] },
+          { executable: 'npx', args: ['jest', '-t', '*'] },
+        ],
+      }))
+    })
+
+    afterAll(() => {
+      fs.rmSync(path.join(root, POLICY_FILE))
+    })
+
+    it('matches literals, globs and alternatives', () => {
+      allows('npm run lint')
+      allows('npx jest -t "adds two numbers"')
+      expect(denial('npm run build').failures).toEqual([{ rule: 'npm run {lint,test}', reason: '"build" does not match "{lint,test}"' }])
+      expect(denial('npm test').failures).toEqual([{ rule: 'npm run {lint,test}', reason: '"test" does not match "run"' }])
+    })
+
+    it('matches repeated patterns, zero or more times', () => {
+      allows('npx jest')
+      allows('npx jest --coverage src/a.spec.ts src')
+      expect(denial('npx jest --watch').failures.find(({ rule }) => rule === 'jest')?.reason).toBe('"--watch" is an option, not a path')
+    })
+
+    it('allows <path> arguments only inside the project', () => {
+      allows('npx jest src/a.spec.ts src/missing.spec.ts')
+      const reasons = (command: string) => denial(command).failures.map(({ reason }) => reason)
+      expect(reasons('npx jest ../outside')).toContain('path "../outside" is outside of the project')
+      expect(reasons(`npx jest ${path.join(base, 'outside')}`)).toContain(`path "${path.join(base, 'outside')}" is outside of the project`)
+      expect(reasons('npx jest escape/a.spec.ts')).toContain('path "escape/a.spec.ts" resolves outside of the project through a symbolic link')
+    })
+
+    it('reports why every rule of the executable failed', () => {
+      const err = denial('npx jest -t')
+      expect(err).toBeInstanceOf(CommandDeniedError)
+      expect(err.failures.map(({ rule }) => rule)).toEqual(['jest', 'npx jest -t *'])
+      expect(err.failures[1].reason).toBe('missing argument for "*"')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { byteOffsetsOf, getFileList, sliceFileContent, toCharOffset } from '../src/file-utils';
+
+describe('getFileList', () => {
+  let base: string
+  let root: string
+
+  const list = async (directory = root) => (await getFileList(directory, root)).map(file => path.relative(root, file)).sort()
+
+  beforeAll(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'file-list-')))
+    root = path.join(base, 'project')
+    fs.mkdirSync(path.join(root, 'sub', 'deep'), { recursive: true })
+    fs.mkdirSync(path.join(root, 'build'))
+    fs.mkdirSync(path.join(base, 'outside'))
+    fs.writeFileSync(path.join(root, '.gitignore'), 'build/\n')
+    fs.writeFileSync(path.join(root, '.env'), 'SECRET=1\n')
+    fs.writeFileSync(path.join(root, 'sub', 'a.ts'), '')
+    fs.writeFileSync(path.join(root, 'sub', 'deep', 'b.ts'), '')
+    fs.writeFileSync(path.join(root, 'build', 'out.js'), '')
+    fs.writeFileSync(path.join(base, 'outside', 'c.ts'), '')
+    fs.symlinkSync('../sub', path.join(root, 'sub', 'loop'))
+    fs.symlinkSync('../..', path.join(root, 'sub', 'deep', 'up'))
+    fs.symlinkSync('../outside', path.join(root, 'escape'))
+    fs.symlinkSync('missing', path.join(root, 'broken'))
+    fs.symlinkSync('.env', path.join(root, 'env-link'))
+  })
+
+  afterAll(() => {
+    fs.rmSync(base, { recursive: true, force: true })
+  })
+
+  it('lists every file once, without following links back to a listed directory', async () => {
+    expect(await list()).toEqual(['.gitignore', path.join('sub', 'a.ts'), path.join('sub', 'deep', 'b.ts')])
+  })
+
+  it('does not loop when listing starts below the root', async () => {
+    expect(await list(path.join(root, 'sub'))).toEqual([path.join('sub', 'a.ts'), path.join('sub', 'deep', 'b.ts')])
+  })
+})
+
+describe('byte offsets', () => {
+  const content = 'aé€😀b\n\ud800z'
+
+  it('converts every character offset to the UTF-8 byte offset', () => {
+    const toByte = byteOffsetsOf(content)
+    // offsets between the two halves of a surrogate pair are left out, no character starts there
+    for (let i = 0; i <= content.length; i++)
+      if (!/^[\ud800-\udbff][\udc00-\udfff]$/.test(content.slice(i - 1, i + 1)))
+        expect([i, toByte(i)]).toEqual([i, Buffer.byteLength(content.slice(0, i))])
+    expect(byteOffsetsOf('plain')(3)).toBe(3)
+  })
+
+  it('converts byte offsets back to character offsets', () => {
+    for (const [char, byte] of [[0, 0], [1, 1], [2, 3], [3, 6], [5, 10], [6, 11]])
+      expect(toCharOffset(content, byte)).toBe(char)
+  })
+})
+
+describe('sliceFileContent', () => {
+  const content = 'é😀\n€x\n'
+
+  // reads the content page by page with the budget, like a client following the cursors
+  const pages = (maxChars: number) => {
+    const result = []
+    let page = sliceFileContent(content, { maxChars })
+    result.push(page)
+    while (page.cursor && result.length < 20)
+      result.push(page = sliceFileContent(content, { maxChars, cursor: page.cursor }))
+    return result
+  }
+
+  it('reports UTF-8 byte offsets', () => {
+    expect(sliceFileContent(content, { startLine: 2 })).toMatchObject({ content: '€x\n', startByte: 7, endByte: 12, totalBytes: 12 })
+    expect(sliceFileContent(content, { startByte: 2, endByte: 8 })).toMatchObject({ content: '😀\n', startLine: 1, endLine: 1 })
+  })
+
+  it('moves byte offsets inside a character back to its start', () => {
+    expect(sliceFileContent(content, { startByte: 1, endByte: 4 }).content).toBe('é')
+  })
+
+  it('never splits a character, and always moves on, even with a budget of one', () => {
+    const read = pages(1)
+    expect(read.map(page => page.content)).toEqual(['é', '😀', '\n', '€', 'x', '\n'])
+    expect(read.map(page => page.startByte)).toEqual([0, 2, 6, 7, 10, 11])
+    expect(read[read.length - 1].truncated).toBe(false)
+  })
+
+  it('ends pages at the last whole line that fits the budget', () => {
+    expect(pages(5).map(page => page.content)).toEqual(['é😀\n', '€x\n'])
+  })
+})
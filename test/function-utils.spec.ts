@@ -0,0 +1,51 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getFunctionData, writeFunctionData } from '../src/function-utils';
+import { findSymbols } from '../src/parsers';
+
+describe('function ranges', () => {
+  let root: string
+  let file: string
+  const content = "const greeting = 'héllo 😀'\n\nexport function greet() {\n  return greeting\n}\n\nfunction last() {}\n"
+
+  const bytesOf = (text: string, start: number, end: number) => Buffer.from(text).toString('utf8', start, end)
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'functions-')))
+    file = path.join(root, 'a.ts')
+  })
+
+  beforeEach(() => {
+    fs.writeFileSync(file, content)
+  })
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('gives symbols UTF-8 byte ranges', () => {
+    const symbols = findSymbols(content, file)
+    expect(symbols.map(({ name, startByte, endByte }) => [name, bytesOf(content, startByte, endByte)])).toEqual([
+      ['greet', 'export function greet() {\n  return greeting\n}'],
+      ['last', 'function last() {}'],
+    ])
+    expect(symbols[0].startByte).toBe(Buffer.byteLength("const greeting = 'héllo 😀'\n\n"))
+  })
+
+  it('reads a function with its byte range', async () => {
+    const data = await getFunctionData('last', file)
+    expect(data?.content.full).toBe('function last() {}')
+    expect(data && bytesOf(content, data.startByte, data.endByte)).toBe('function last() {}')
+  })
+
+  it('replaces a function, and inserts one after a sibling, after multi-byte content', async () => {
+    const replaced = await writeFunctionData('greet', file, 'export function greet() {\n  return "¡hola!"\n}')
+    const written = fs.readFileSync(file, 'utf8')
+    expect(written).toBe("const greeting = 'héllo 😀'\n\nexport function greet() {\n  return \"¡hola!\"\n}\n\nfunction last() {}\n")
+    expect(replaced && bytesOf(written, replaced.startByte, replaced.endByte)).toBe(replaced?.content.full)
+
+    await writeFunctionData('first', file, 'function first() {}', 'greet')
+    expect(fs.readFileSync(file, 'utf8')).toContain('}\n\nfunction first() {}\n\nfunction last() {}\n')
+  })
+})
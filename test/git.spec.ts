@@ -0,0 +1,117 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { byteRangeToLines, commit, getBlame, getDiff, getLog, getStatus } from '../src/git-utils';
+
+describe('git utils', () => {
+  let root: string
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: root, encoding: 'utf8' })
+  const write = (fileName: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, fileName)), { recursive: true })
+    fs.writeFileSync(path.join(root, fileName), content)
+  }
+  const stagedFiles = () => git('diff', '--cached', '--name-only').split('\n').filter(Boolean)
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-utils-')))
+    git('init', '--quiet', '--initial-branch=main')
+    git('config', 'user.name', 'Test')
+    git('config', 'user.email', 'test@example.com')
+    write('src/index.ts', 'export const a = 1\n')
+    write('.env', 'SECRET=1\n')
+    write('.code-plugin/history.jsonl', '{}\n')
+    git('add', 'src/index.ts')
+    git('commit', '--quiet', '--message=Initial commit')
+  })
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('lists changed and untracked files, without the deny-listed ones', async () => {
+    write('src/index.ts', 'export const a = 2\n')
+    write('src/new.ts', 'export const b = 1\n')
+    const status = await getStatus(root)
+    expect(status.branch).toBe('main')
+    expect(status.files).toEqual([
+      { fileName: 'src/index.ts', staged: null, unstaged: 'modified' },
+      { fileName: 'src/new.ts', staged: null, unstaged: 'untracked' },
+    ])
+  })
+
+  it('diffs the working tree with line counts', async () => {
+    const { files, diff } = await getDiff(root)
+    expect(files).toEqual([{ fileName: 'src/index.ts', additions: 1, deletions: 1 }])
+    expect(diff).toContain('-export const a = 1')
+    expect(diff).toContain('+export const a = 2')
+  })
+
+  it('unstages the files it staged when the commit fails', async () => {
+    write('src/staged.ts', 'export const c = 1\n')
+    git('add', 'src/staged.ts')
+    // without an email the commit itself fails, after the files were staged
+    git('config', 'user.useConfigOnly', 'true')
+    git('config', '--unset', 'user.email')
+
+    await expect(commit(root, 'Without an author')).rejects.toMatchObject({ code: 'EGIT' })
+    expect(stagedFiles()).toEqual(['src/staged.ts'])
+    git('config', 'user.email', 'test@example.com')
+  })
+
+  it('commits every change but the deny-listed files', async () => {
+    const result = await commit(root, 'Second commit')
+    expect(result.subject).toBe('Second commit')
+    expect(result.files).toEqual(['src/index.ts', 'src/new.ts', 'src/staged.ts'])
+    expect(git('ls-files').split('\n').filter(Boolean)).toEqual(['src/index.ts', 'src/new.ts', 'src/staged.ts'])
+    expect(stagedFiles()).toEqual([])
+    expect((await getStatus(root)).files).toEqual([])
+  })
+
+  it('commits only the given files', async () => {
+    write('src/index.ts', 'export const a = 3\n')
+    write('src/new.ts', 'export const b = 2\n')
+    const result = await commit(root, 'Only index', ['src/index.ts'])
+    expect(result.files).toEqual(['src/index.ts'])
+    expect((await getStatus(root)).files).toEqual([{ fileName: 'src/new.ts', staged: null, unstaged: 'modified' }])
+  })
+
+  it('refuses to commit when nothing changed', async () => {
+    await expect(commit(root, 'Nothing', ['src/index.ts'])).rejects.toThrow('Nothing to commit')
+  })
+
+  it('lists the commits of a file, newest first', async () => {
+    const log = await getLog(root, { fileName: 'src/index.ts' })
+    expect(log.map(({ subject }) => subject)).toEqual(['Only index', 'Second commit', 'Initial commit'])
+    expect(log[0]).toMatchObject({ author: 'Test', email: 'test@example.com' })
+  })
+
+  it('blames the lines of a file', async () => {
+    const [line] = await getBlame(root, 'src/index.ts')
+    expect(line).toMatchObject({ line: 1, author: 'Test', summary: 'Only index', content: 'export const a = 3' })
+  })
+
+  it('takes the given file names literally and leaves out the deny-listed ones', async () => {
+    write('src/[ab].ts', 'export const d = 1\n')
+    write('src/a.ts', 'export const e = 1\n')
+    await expect(commit(root, 'Secrets', ['.env*'])).rejects.toMatchObject({ code: 'EGIT' })
+    await expect(commit(root, 'Secrets', ['.env'])).rejects.toMatchObject({ code: 'EGIT' })
+    const result = await commit(root, 'Brackets', ['src/[ab].ts'])
+    expect(result.files).toEqual(['src/[ab].ts'])
+    expect(git('ls-files').split('\n').filter(Boolean)).not.toContain('.env')
+    expect(stagedFiles()).toEqual([])
+  })
+
+  it('converts UTF-8 byte ranges to the lines they span', async () => {
+    write('src/multi.ts', '// 😀😀😀\nconst a = 1\nconst b = 2\n')
+    const filePath = path.join(root, 'src', 'multi.ts')
+    // the second line starts at byte 16, but at character 10
+    expect(await byteRangeToLines(filePath, 16, 28)).toEqual({ startLine: 2, endLine: 2 })
+    expect(await byteRangeToLines(filePath, 10)).toEqual({ startLine: 1, endLine: 3 })
+  })
+
+  it('rejects refs that look like options', async () => {
+    await expect(getDiff(root, { from: '--output=/tmp/x' })).rejects.toMatchObject({ code: 'EGIT' })
+  })
+})
@@ -0,0 +1,126 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('undo journal', () => {
+  let history: typeof import('../src/history')
+  let base: string
+  let root: string
+  let count = 0
+
+  const read = (fileName: string) => fs.readFileSync(path.join(root, fileName), 'utf8')
+  // writes a file and records the change, like the file routes do
+  const change = async (fileName: string, content: string | null) => {
+    const filePath = path.join(root, fileName)
+    const before = await history.readForHistory(filePath)
+    if (content === null)
+      fs.rmSync(filePath)
+    else
+      fs.writeFileSync(filePath, content)
+    return history.recordChange(root, 'PUT /files/*', fileName, before, content)
+  }
+
+  beforeAll(async () => {
+    // the limits are read when the module loads
+    process.env.MAX_HISTORY_ENTRIES = '5'
+    process.env.MAX_HISTORY_BYTES = '2000'
+    history = await import('../src/history')
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'history-')))
+  })
+
+  beforeEach(() => {
+    root = path.join(base, `project-${count++}`)
+    fs.mkdirSync(root)
+    execFileSync('git', ['init', '--quiet'], { cwd: root })
+  })
+
+  afterAll(() => {
+    delete process.env.MAX_HISTORY_ENTRIES
+    delete process.env.MAX_HISTORY_BYTES
+    fs.rmSync(base, { recursive: true, force: true })
+  })
+
+  it('records changes in .code-plugin and hides it from git', async () => {
+    await change('a.ts', 'one\n')
+    await change('a.ts', 'two\n')
+    expect(fs.existsSync(path.join(root, '.code-plugin', 'history.jsonl'))).toBe(true)
+    expect(fs.readFileSync(path.join(root, '.git', 'info', 'exclude'), 'utf8').split('\n')).toContain('.code-plugin/')
+    expect(execFileSync('git', ['status', '--porcelain'], { cwd: root, encoding: 'utf8' })).toBe('?? a.ts\n')
+
+    const summaries = await history.listHistory(root)
+    expect(summaries.map(({ id, fileName, beforeBytes, afterBytes }) => ({ id, fileName, beforeBytes, afterBytes }))).toEqual([
+      { id: 2, fileName: 'a.ts', beforeBytes: 4, afterBytes: 4 },
+      { id: 1, fileName: 'a.ts', beforeBytes: null, afterBytes: 4 },
+    ])
+    expect(await history.getHistoryEntry(root, 2)).toMatchObject({ before: 'one\n', after: 'two\n' })
+  })
+
+  it('adds the exclusion to the git repository a nested project is in, once', async () => {
+    const nested = path.join(root, 'packages', 'web')
+    fs.mkdirSync(nested, { recursive: true })
+    await history.recordChange(nested, 'PUT /files/*', 'a.ts', null, 'one\n')
+    await history.recordChange(nested, 'PUT /files/*', 'a.ts', 'one\n', 'two\n')
+    const exclude = fs.readFileSync(path.join(root, '.git', 'info', 'exclude'), 'utf8').split('\n')
+    expect(exclude.filter(line => line === '.code-plugin/')).toHaveLength(1)
+    expect(fs.existsSync(path.join(nested, '.code-plugin', 'history.jsonl'))).toBe(true)
+  })
+
+  it('reverts a change, and records the revert so it can be reverted too', async () => {
+    await change('a.ts', 'one\n')
+    await change('a.ts', 'two\n')
+    const [revert] = await history.revertHistory(root, 2) ?? []
+    expect(revert).toMatchObject({ id: 3, revertOf: 2, route: 'POST /history/2/revert' })
+    expect(read('a.ts')).toBe('one\n')
+
+    await history.revertHistory(root, 3)
+    expect(read('a.ts')).toBe('two\n')
+    expect(await history.revertHistory(root, 99)).toBeUndefined()
+  })
+
+  it('reverts every change since one, and deletes the files they created', async () => {
+    await change('a.ts', 'one\n')
+    await change('b.ts', 'new\n')
+    await change('a.ts', 'two\n')
+    await change('a.ts', 'three\n')
+    const reverts = await history.revertHistory(root, 2, true)
+    expect(reverts?.map(({ fileName, revertOf }) => ({ fileName, revertOf }))).toEqual([
+      { fileName: 'b.ts', revertOf: 2 },
+      { fileName: 'a.ts', revertOf: 3 },
+    ])
+    expect(read('a.ts')).toBe('one\n')
+    expect(fs.existsSync(path.join(root, 'b.ts'))).toBe(false)
+  })
+
+  it('refuses to revert a file that changed since', async () => {
+    await change('a.ts', 'one\n')
+    await change('a.ts', 'two\n')
+    fs.writeFileSync(path.join(root, 'a.ts'), 'edited by hand\n')
+    await expect(history.revertHistory(root, 2)).rejects.toMatchObject({ code: 'ECONFLICT' })
+    await expect(history.revertHistory(root, 1)).rejects.toMatchObject({ code: 'ECONFLICT' })
+    expect(read('a.ts')).toBe('edited by hand\n')
+    expect(await history.listHistory(root)).toHaveLength(2)
+  })
+
+  it('keeps the last MAX_HISTORY_ENTRIES changes', async () => {
+    for (let i = 1; i <= 7; i++)
+      await change('a.ts', `${i}\n`)
+    expect((await history.listHistory(root)).map(({ id }) => id)).toEqual([7, 6, 5, 4, 3])
+  })
+
+  it('drops the oldest changes beyond MAX_HISTORY_BYTES, but keeps the newest whatever its size', async () => {
+    await change('a.ts', 'a'.repeat(500))
+    await change('b.ts', 'b'.repeat(500))
+    expect((await history.listHistory(root)).map(({ id }) => id)).toEqual([2, 1])
+    await change('c.ts', 'c'.repeat(800))
+    expect((await history.listHistory(root)).map(({ id }) => id)).toEqual([3, 2])
+    await change('d.ts', 'd'.repeat(3000))
+    expect((await history.listHistory(root)).map(({ id }) => id)).toEqual([4])
+  })
+
+  it('lists the changes of one file', async () => {
+    await change('a.ts', 'one\n')
+    await change('b.ts', 'one\n')
+    expect((await history.listHistory(root, 'b.ts')).map(({ id }) => id)).toEqual([2])
+  })
+})
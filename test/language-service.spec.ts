@@ -0,0 +1,49 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { findDefinition, findReferences } from '../src/language-service';
+
+describe('language service ranges', () => {
+  let root: string
+  let a: string
+  let b: string
+  const aContent = "// héllo 😀\nexport function helper() { return '€' }\n"
+  const bContent = "import { helper } from './a'\nconst s = '😀😀'; helper()\n"
+
+  const bytesOf = (text: string, start: number, end: number) => Buffer.from(text).toString('utf8', start, end)
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'language-service-')))
+    a = path.join(root, 'src', 'a.ts')
+    b = path.join(root, 'src', 'b.ts')
+    fs.mkdirSync(path.join(root, 'src'))
+    fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true }, include: ['src'] }))
+    fs.writeFileSync(a, aContent)
+    fs.writeFileSync(b, bContent)
+  })
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('finds references after multi-byte content, with UTF-8 byte ranges', async () => {
+    const files = await findReferences(root, 'helper')
+    const ranges = files?.flatMap(({ fileName, references }) => references.map(({ startByte, endByte, line, column }) => ({
+      fileName: path.relative(root, fileName),
+      text: bytesOf(fileName === a ? aContent : bContent, startByte, endByte),
+      line,
+      column,
+    })))
+    expect(ranges).toEqual([
+      { fileName: 'src/a.ts', text: 'helper', line: 2, column: 17 },
+      { fileName: 'src/b.ts', text: 'helper', line: 1, column: 10 },
+      { fileName: 'src/b.ts', text: 'helper', line: 2, column: 19 },
+    ])
+  })
+
+  it('finds definitions with UTF-8 byte ranges', () => {
+    const [{ fileName, definitions: [definition] }] = findDefinition(root, b, 2, 19)
+    expect(fileName).toBe(a)
+    expect(bytesOf(aContent, definition.startByte, definition.endByte)).toBe('helper')
+  })
+})
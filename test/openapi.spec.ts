@@ -0,0 +1,89 @@
+import yaml from 'js-yaml';
+import request from 'supertest';
+import { getProfile } from '../src/capabilities';
+import { app } from '../src/index';
+import { buildOpenApi, listRegisteredRoutes, RouteDefinition, toOpenApiPath } from '../src/openapi';
+import { PROJECT_PREFIX } from '../src/projects';
+
+interface OpenApiDocument {
+  paths: { [path: string]: { [method: string]: { operationId: string } } }
+}
+
+// Served outside of the API, so not described in it
+const PUBLIC_PATHS = ['/.well-known/ai-plugin.json', '/openapi.yaml', `${PROJECT_PREFIX}/openapi.yaml`]
+
+const fetchDocument = async (url: string) => {
+  const res = await request(app).get(url).expect(200)
+  return yaml.load(res.text) as OpenApiDocument
+}
+
+// The operations of a document as `METHOD path`, with express paths
+const operationsOf = (document: OpenApiDocument) =>
+  Object.entries(document.paths).flatMap(([path, methods]) => Object.keys(methods).map(method => `${method.toUpperCase()} ${path}`))
+
+describe('OpenAPI document', () => {
+  let api: OpenApiDocument
+  let projectApi: OpenApiDocument
+
+  beforeAll(async () => {
+    api = await fetchDocument('/openapi.yaml')
+    projectApi = await fetchDocument('/projects/default/openapi.yaml')
+  })
+
+  const registered = () => listRegisteredRoutes(app).filter(route => !PUBLIC_PATHS.includes(route.path))
+
+  it('describes every route registered on the app', () => {
+    const undocumented = registered()
+      .filter(({ path }) => !path.startsWith(PROJECT_PREFIX))
+      .filter(({ method, path }) => !api.paths[toOpenApiPath(path).path]?.[method.toLowerCase()])
+      .map(({ method, path }) => `${method} ${path}`)
+    expect(undocumented).toEqual([])
+  })
+
+  it('describes every route registered for a project in the project document', () => {
+    const undocumented = registered()
+      .filter(({ path }) => path.startsWith(PROJECT_PREFIX))
+      .map(({ method, path }) => ({ method, path: path.slice(PROJECT_PREFIX.length) }))
+      .filter(({ method, path }) => !projectApi.paths[toOpenApiPath(path).path]?.[method.toLowerCase()])
+      .map(({ method, path }) => `${method} ${PROJECT_PREFIX}${path}`)
+    expect(undocumented).toEqual([])
+  })
+
+  it('only describes routes that are registered', () => {
+    const routes = new Set(registered().map(({ method, path }) => `${method} ${toOpenApiPath(path).path}`))
+    expect(operationsOf(api).filter(operation => !routes.has(operation))).toEqual([])
+    const projectRoutes = new Set(registered()
+      .filter(({ path }) => path.startsWith(PROJECT_PREFIX))
+      .map(({ method, path }) => `${method} ${toOpenApiPath(path.slice(PROJECT_PREFIX.length)).path}`))
+    expect(operationsOf(projectApi).filter(operation => !projectRoutes.has(operation))).toEqual([])
+  })
+
+  it('gives every operation a unique operationId', () => {
+    const operationIds = Object.values(api.paths).flatMap(methods => Object.values(methods).map(({ operationId }) => operationId))
+    expect(operationIds.filter((operationId, i) => operationIds.indexOf(operationId) !== i)).toEqual([])
+  })
+})
+
+describe('buildOpenApi', () => {
+  const route = (method: RouteDefinition['method'], path: string, definition: Partial<RouteDefinition> = {}): RouteDefinition => ({
+    method, path, operationId: `${method}${path}`, summary: path, responses: {}, handler: (req, res) => res.end(), ...definition,
+  })
+  const routes = [
+    route('get', '/files'),
+    route('put', '/files/*', { capability: 'write' }),
+    route('post', '/refactor/rename', { capability: 'write', capabilityApplies: req => !req.body.dryRun }),
+    route('post', '/dependencies', { capability: 'dependencies', capabilityApplies: req => req.body.operation !== 'list' }),
+  ]
+
+  it('describes the routes the profile allows some requests to, like requireCapability', () => {
+    const { paths } = buildOpenApi(routes, 'http://localhost', getProfile('read-only')) as OpenApiDocument
+    expect(operationsOf({ paths })).toEqual(['GET /files', 'POST /refactor/rename', 'POST /dependencies'])
+    expect(paths['/refactor/rename'].post).toMatchObject({ description: expect.stringMatching(/does not allow write operations/) })
+  })
+
+  it('leaves the restriction out of the operations the profile fully allows', () => {
+    const { paths } = buildOpenApi(routes, 'http://localhost', getProfile('full')) as OpenApiDocument
+    expect(operationsOf({ paths })).toHaveLength(4)
+    expect(paths['/refactor/rename'].post).not.toHaveProperty('description')
+  })
+})
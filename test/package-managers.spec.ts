@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { detectPackageManager, diffDependencies, findWorkspace, listWorkspaces, snapshotDependencies } from '../src/package-managers';
+
+describe('package managers', () => {
+  let base: string
+  let count = 0
+
+  // a new project with the given files, and the mtimes of some of them in seconds
+  const project = (files: { [fileName: string]: string }, mtimes: { [fileName: string]: number } = {}) => {
+    const root = path.join(base, `project-${count++}`)
+    for (const [fileName, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, fileName)), { recursive: true })
+      fs.writeFileSync(path.join(root, fileName), content)
+    }
+    for (const [fileName, mtime] of Object.entries(mtimes))
+      fs.utimesSync(path.join(root, fileName), mtime, mtime)
+    return root
+  }
+
+  beforeAll(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'package-managers-')))
+  })
+
+  afterEach(() => {
+    delete process.env.PKG_MANAGER
+  })
+
+  afterAll(() => {
+    fs.rmSync(base, { recursive: true, force: true })
+  })
+
+  describe('detectPackageManager', () => {
+    it('defaults to npm without a lockfile', async () => {
+      const detected = await detectPackageManager(project({ 'package.json': '{}' }))
+      expect(detected).toMatchObject({ detectedFrom: 'default', lockfiles: [] })
+      expect(detected.manager.name).toBe('npm')
+    })
+
+    it('detects the manager from its lockfile', async () => {
+      for (const [lockfile, name] of [['pnpm-lock.yaml', 'pnpm'], ['yarn.lock', 'yarn'], ['package-lock.json', 'npm'], ['npm-shrinkwrap.json', 'npm']]) {
+        const { manager, detectedFrom } = await detectPackageManager(project({ 'package.json': '{}', [lockfile]: '' }))
+        expect({ name: manager.name, lockfile: manager.lockfile, detectedFrom }).toEqual({ name, lockfile, detectedFrom: 'lockfile' })
+      }
+    })
+
+    it('takes the most recently changed lockfile when there are several', async () => {
+      const root = project({ 'package.json': '{}', 'yarn.lock': '', 'package-lock.json': '' }, { 'yarn.lock': 2000000000, 'package-lock.json': 1000000000 })
+      const detected = await detectPackageManager(root)
+      expect(detected.manager.name).toBe('yarn')
+      expect(detected.lockfiles.sort()).toEqual(['package-lock.json', 'yarn.lock'])
+    })
+
+    it('prefers the packageManager field to the lockfiles, and PKG_MANAGER to both', async () => {
+      const root = project({ 'package.json': JSON.stringify({ packageManager: 'pnpm@8.6.0' }), 'package-lock.json': '' })
+      expect(await detectPackageManager(root)).toMatchObject({ manager: { name: 'pnpm' }, detectedFrom: 'packageManager' })
+      process.env.PKG_MANAGER = 'yarn'
+      expect(await detectPackageManager(root)).toMatchObject({ manager: { name: 'yarn' }, detectedFrom: 'PKG_MANAGER' })
+      process.env.PKG_MANAGER = 'bower'
+      await expect(detectPackageManager(root)).rejects.toMatchObject({ code: 'EINVAL' })
+    })
+
+    it('tells yarn berry from yarn classic', async () => {
+      const classic = (await detectPackageManager(project({ 'package.json': '{}', 'yarn.lock': '' }))).manager
+      const berry = (await detectPackageManager(project({ 'package.json': '{}', 'yarn.lock': '', '.yarnrc.yml': '' }))).manager
+      const declared = (await detectPackageManager(project({ 'package.json': JSON.stringify({ packageManager: 'yarn@3.6.0' }) }))).manager
+      expect(classic.update('left-pad', {})).toEqual(['yarn', 'upgrade', 'left-pad'])
+      expect(berry.update('left-pad', {})).toEqual(['yarn', 'up', 'left-pad'])
+      expect(declared.update('left-pad', {})).toEqual(['yarn', 'up', 'left-pad'])
+    })
+  })
+
+  describe('adapters', () => {
+    const managerOf = async (lockfile: string) => (await detectPackageManager(project({ 'package.json': '{}', [lockfile]: '' }))).manager
+
+    it('builds the commands of every manager, for a workspace and as a dev dependency', async () => {
+      const npm = await managerOf('package-lock.json')
+      const yarn = await managerOf('yarn.lock')
+      const pnpm = await managerOf('pnpm-lock.yaml')
+      expect(npm.add('jest@29', { dev: true, workspace: 'web' })).toEqual(['npm', 'install', '--save-dev', '--workspace=web', 'jest@29'])
+      expect(npm.update('jest@29', {})).toEqual(['npm', 'install', 'jest@29'])
+      expect(npm.update('jest', {})).toEqual(['npm', 'update', 'jest'])
+      expect(yarn.add('jest', { dev: true, workspace: 'web' })).toEqual(['yarn', 'workspace', 'web', 'add', '--dev', 'jest'])
+      expect(yarn.remove('jest', {})).toEqual(['yarn', 'remove', 'jest'])
+      expect(pnpm.add('jest', { dev: true, workspace: 'web' })).toEqual(['pnpm', '--filter', 'web', 'add', '--save-dev', 'jest'])
+      expect(pnpm.list({})).toEqual(['pnpm', 'list', '--depth=0'])
+    })
+
+    it('reads npm lockfiles of every version', async () => {
+      const npm = await managerOf('package-lock.json')
+      const v3 = JSON.stringify({ packages: { '': {}, 'node_modules/a': { version: '1.0.0' }, 'node_modules/b/node_modules/a': { version: '2.0.0' } } })
+      expect(npm.readLockfile(v3)).toEqual(new Map([['a', ['1.0.0', '2.0.0']]]))
+      expect(npm.readLockedVersions(v3, new Map([['a', '^1.0.0'], ['c', '^1.0.0']]))).toEqual(new Map([['a', '1.0.0']]))
+      const v1 = JSON.stringify({ dependencies: { a: { version: '1.0.0', dependencies: { b: { version: '2.0.0' } } } } })
+      expect(npm.readLockfile(v1)).toEqual(new Map([['a', ['1.0.0']], ['b', ['2.0.0']]]))
+    })
+
+    it('reads yarn classic and berry lockfiles', async () => {
+      const yarn = await managerOf('yarn.lock')
+      const classic = '# yarn lockfile v1\n\n"@scope/a@^1.0.0", "@scope/a@^1.1.0":\n  version "1.2.0"\n  resolved "x"\n\nb@^2.0.0:\n  version "2.0.1"\n'
+      expect(yarn.readLockfile(classic)).toEqual(new Map([['@scope/a', ['1.2.0']], ['b', ['2.0.1']]]))
+      expect(yarn.readLockedVersions(classic, new Map([['@scope/a', '^1.1.0']]))).toEqual(new Map([['@scope/a', '1.2.0']]))
+      const berry = '__metadata:\n  version: 6\n\n"b@npm:^2.0.0":\n  version: 2.0.1\n  resolution: "b@npm:2.0.1"\n'
+      expect(yarn.readLockedVersions(berry, new Map([['b', '^2.0.0']]))).toEqual(new Map([['b', '2.0.1']]))
+    })
+
+    it('reads pnpm lockfiles of every version', async () => {
+      const pnpm = await managerOf('pnpm-lock.yaml')
+      const v6 = [
+        "lockfileVersion: '6.0'", 'importers:', '  .:', '    dependencies:', '      a:', '        specifier: ^1.0.0', '        version: 1.0.0(b@2.0.0)',
+        'packages:', '  /a@1.0.0(b@2.0.0):', '    resolution: {}', '  /@scope/b@2.0.0:', '    resolution: {}', '',
+      ].join('\n')
+      expect(pnpm.readLockfile(v6)).toEqual(new Map([['a', ['1.0.0']], ['@scope/b', ['2.0.0']]]))
+      expect(pnpm.readLockedVersions(v6, new Map([['a', '^1.0.0']]))).toEqual(new Map([['a', '1.0.0']]))
+      const v5 = ['lockfileVersion: 5.4', 'devDependencies:', '  a: 1.0.0_b@2.0.0', 'packages:', '  /a/1.0.0_b@2.0.0:', '    resolution: {}', ''].join('\n')
+      expect(pnpm.readLockfile(v5)).toEqual(new Map([['a', ['1.0.0']]]))
+      expect(pnpm.readLockedVersions(v5, new Map([['a', '^1.0.0']]))).toEqual(new Map([['a', '1.0.0']]))
+    })
+  })
+
+  describe('workspaces', () => {
+    it('lists the workspaces of package.json and of pnpm-workspace.yaml', async () => {
+      const root = project({
+        'package.json': JSON.stringify({ workspaces: ['packages/*', '!packages/skip'] }),
+        'packages/web/package.json': JSON.stringify({ name: 'web' }),
+        'packages/skip/package.json': JSON.stringify({ name: 'skip' }),
+        'tools/package.json': JSON.stringify({ name: 'tools' }),
+      })
+      expect(await listWorkspaces(root)).toEqual([{ name: 'web', path: 'packages/web' }])
+      expect(await findWorkspace(root, './packages/web/')).toEqual({ name: 'web', path: 'packages/web' })
+      await expect(findWorkspace(root, 'tools')).rejects.toThrow('Unknown workspace tools, expected one of web')
+
+      const pnpmRoot = project({ 'package.json': '{}', 'pnpm-workspace.yaml': "packages:\n  - 'apps/**'\n", 'apps/site/a/package.json': JSON.stringify({ name: 'a' }) })
+      expect(await listWorkspaces(pnpmRoot)).toEqual([{ name: 'a', path: 'apps/site/a' }])
+    })
+  })
+
+  describe('diffDependencies', () => {
+    it('lists the changes to package.json files and to the lockfile', async () => {
+      const root = project({
+        'package.json': JSON.stringify({ dependencies: { a: '^1.0.0', b: '^1.0.0' } }),
+        'package-lock.json': JSON.stringify({ packages: { 'node_modules/a': { version: '1.0.0' }, 'node_modules/b': { version: '1.0.0' } } }),
+      })
+      const { manager } = await detectPackageManager(root)
+      const before = await snapshotDependencies(root, manager, ['package.json'])
+      fs.writeFileSync(path.join(root, 'package.json'), JSON.stringify({ dependencies: { a: '^1.1.0' }, devDependencies: { c: '^3.0.0' } }))
+      fs.writeFileSync(path.join(root, 'package-lock.json'), JSON.stringify({ packages: { 'node_modules/a': { version: '1.1.0' }, 'node_modules/c': { version: '3.0.0' } } }))
+      const after = await snapshotDependencies(root, manager, ['package.json'])
+
+      expect(diffDependencies(before, after)).toEqual({
+        manifests: [{
+          fileName: 'package.json',
+          changes: [
+            { type: 'dependencies', name: 'a', from: '^1.0.0', to: '^1.1.0' },
+            { type: 'dependencies', name: 'b', from: '^1.0.0', to: null },
+            { type: 'devDependencies', name: 'c', from: null, to: '^3.0.0' },
+          ],
+        }],
+        lockfile: {
+          fileName: 'package-lock.json',
+          added: [{ name: 'c', versions: ['3.0.0'] }],
+          removed: [{ name: 'b', versions: ['1.0.0'] }],
+          changed: [{ name: 'a', from: ['1.0.0'], to: ['1.1.0'] }],
+        },
+      })
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import { applySearchReplace, applyUnifiedDiff, createUnifiedDiff, PatchConflictError } from '../src/patch-utils';
+
+describe('applyUnifiedDiff', () => {
+  it('applies hunks with or without file headers', () => {
+    const diff = '--- a/a.txt\n+++ b/a.txt\n@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n'
+    expect(applyUnifiedDiff('one\ntwo\nthree\n', diff).content).toBe('one\nTWO\nthree\n')
+    expect(applyUnifiedDiff('one\ntwo\nthree\n', '@@ -2 +2 @@\n-two\n+2\n').content).toBe('one\n2\nthree\n')
+  })
+
+  it('finds hunks whose lines shifted', () => {
+    const diff = '@@ -1,2 +1,2 @@\n two\n-three\n+THREE\n'
+    expect(applyUnifiedDiff('one\ntwo\nthree\n', diff).content).toBe('one\ntwo\nTHREE\n')
+  })
+
+  it('reports the range of every hunk in UTF-8 bytes', () => {
+    const diff = '@@ -1,3 +1,3 @@\n é\n-ü\n+€\n x\n'
+    const { content, ranges } = applyUnifiedDiff('é\nü\nx\n', diff)
+    expect(content).toBe('é\n€\nx\n')
+    expect(ranges).toEqual([{ startByte: 0, endByte: Buffer.byteLength(content) }])
+    expect(Buffer.from(content).subarray(ranges[0].startByte, ranges[0].endByte).toString()).toBe(content)
+  })
+
+  it('adds and removes the final newline after the no newline marker', () => {
+    const add = '@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n'
+    expect(applyUnifiedDiff('a\nb', add).content).toBe('a\nb\n')
+    const remove = '@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n'
+    expect(applyUnifiedDiff('a\nb\n', remove).content).toBe('a\nb')
+    const context = '@@ -1,2 +1,2 @@\n-a\n+A\n b\n\\ No newline at end of file\n'
+    expect(applyUnifiedDiff('a\nb', context).content).toBe('A\nb')
+  })
+
+  it('round trips the diffs it writes, final newline included', () => {
+    for (const [before, after] of [['a\nb\n', 'a\nb'], ['a\nb', 'a\nc\n'], ['x\n', 'ü\n€']]) {
+      const diff = createUnifiedDiff('f.txt', before, after)
+      expect(applyUnifiedDiff(before, diff).content).toBe(after)
+    }
+  })
+
+  it('reads removed lines that look like file headers as content', () => {
+    const diff = '--- a/q.sql\n+++ b/q.sql\n@@ -1,2 +1,1 @@\n--- comment\n-+++ more\n+select 1\n'
+    expect(applyUnifiedDiff('-- comment\n+++ more\n', diff).content).toBe('select 1\n')
+  })
+
+  it('refuses diffs that change more than one file', () => {
+    const diff = [
+      'diff --git a/a.txt b/a.txt', '--- a/a.txt', '+++ b/a.txt', '@@ -1 +1 @@', '-a', '+A',
+      'diff --git a/b.txt b/b.txt', '--- a/b.txt', '+++ b/b.txt', '@@ -1 +1 @@', '-b', '+B', '',
+    ].join('\n')
+    expect(() => applyUnifiedDiff('a\n', diff)).toThrow(expect.objectContaining({ code: 'EBADPATCH' }))
+    const plain = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-a\n+A\n--- a/b.txt\n+++ b/b.txt\n@@ -1 +1 @@\n-b\n+B\n'
+    expect(() => applyUnifiedDiff('a\n', plain)).toThrow('more than one file')
+  })
+
+  it('refuses diffs without hunks, and hunks that do not match', () => {
+    expect(() => applyUnifiedDiff('a\n', 'not a diff')).toThrow(expect.objectContaining({ code: 'EBADPATCH' }))
+    expect(() => applyUnifiedDiff('a\n', '@@ -1 +1 @@\n-b\n+c\n')).toThrow(PatchConflictError)
+  })
+})
+
+describe('applySearchReplace', () => {
+  it('replaces every search text and reports the ranges in UTF-8 bytes', () => {
+    const { content, ranges } = applySearchReplace('é = 1\nü = 2\n', [{ search: 'ü = 2', replace: '€ = 3' }])
+    expect(content).toBe('é = 1\n€ = 3\n')
+    expect(ranges).toEqual([{ startByte: 7, endByte: 14 }])
+    expect(Buffer.from(content).subarray(7, 14).toString()).toBe('€ = 3')
+  })
+
+  it('refuses search texts that are missing or ambiguous', () => {
+    expect(() => applySearchReplace('a\na\n', [{ search: 'a', replace: 'b' }])).toThrow('more than once')
+    expect(() => applySearchReplace('a\n', [{ search: 'z', replace: 'b' }])).toThrow('not found')
+  })
+})
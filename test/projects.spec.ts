@@ -0,0 +1,65 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getDenyList } from '../src/file-utils';
+import { getProject, listProjects, registerProject, unregisterProject } from '../src/projects';
+
+describe('projects', () => {
+  let base: string
+
+  const directory = (...segments: string[]) => {
+    const dir = path.join(base, ...segments)
+    fs.mkdirSync(dir, { recursive: true })
+    return dir
+  }
+
+  beforeAll(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'projects-')))
+    registerProject({ id: 'default', root: directory('main') }, 'environment')
+  })
+
+  afterEach(() => {
+    listProjects().filter(({ id }) => id !== 'default').forEach(({ id }) => unregisterProject(id))
+  })
+
+  afterAll(() => {
+    fs.rmSync(base, { recursive: true, force: true })
+  })
+
+  it('registers projects next to each other with their own profile and deny list', () => {
+    directory('web')
+    const web = registerProject({ id: 'web', root: 'web', profile: 'read-only', deny: ['secrets/'] }, 'config', base)
+    expect(web).toMatchObject({ id: 'web', root: path.join(base, 'web'), deny: ['secrets/'], source: 'config' })
+    expect([...web.profile.capabilities]).toEqual(['read'])
+    expect(getDenyList(path.join(base, 'web', 'src'))).toContain('secrets/')
+    expect(getDenyList(path.join(base, 'main'))).not.toContain('secrets/')
+  })
+
+  it('refuses ids and roots that are taken', () => {
+    registerProject({ id: 'web', root: directory('web') }, 'api')
+    expect(() => registerProject({ id: 'web', root: directory('api') }, 'api')).toThrow(expect.objectContaining({ code: 'ECONFLICT' }))
+    expect(() => registerProject({ id: 'other', root: directory('web') }, 'api')).toThrow('already served as project web')
+  })
+
+  it('refuses a root inside another project, or containing one', () => {
+    const nested = directory('main', 'packages', 'web')
+    expect(() => registerProject({ id: 'nested', root: nested, profile: 'read-only' }, 'api'))
+      .toThrow(expect.objectContaining({ code: 'ECONFLICT', message: expect.stringMatching(/overlaps project default/) }))
+    expect(() => registerProject({ id: 'parent', root: base }, 'api')).toThrow(/overlaps project default/)
+    expect(getProject('nested')).toBeUndefined()
+    expect(getDenyList(nested)).toEqual(getDenyList(path.join(base, 'main')))
+  })
+
+  it('compares roots by their real paths', () => {
+    fs.symlinkSync(path.join(base, 'main', 'packages'), path.join(base, 'packages-link'))
+    expect(() => registerProject({ id: 'linked', root: path.join(base, 'packages-link', 'web') }, 'api')).toThrow(/overlaps project default/)
+  })
+
+  it('allows a root again once the project around it is removed', () => {
+    const web = directory('web')
+    registerProject({ id: 'web', root: web }, 'api')
+    expect(() => registerProject({ id: 'web-src', root: directory('web', 'src') }, 'api')).toThrow(/overlaps project web/)
+    unregisterProject('web')
+    expect(registerProject({ id: 'web-src', root: path.join(web, 'src') }, 'api').root).toBe(path.join(web, 'src'))
+  })
+})
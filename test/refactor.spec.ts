@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { planMoveFunction, planRename } from '../src/refactor';
+
+describe('planRename', () => {
+  let root: string
+  let a: string
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'refactor-')))
+    a = path.join(root, 'src', 'a.ts')
+    fs.mkdirSync(path.join(root, 'src'))
+    fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true }, include: ['src'] }))
+    fs.writeFileSync(a, [
+      'export function helper() { return 1 }',
+      'export function util() { return 2 }',
+      'export function sum(a: number, b: number) { return a + b }',
+      'export interface Point { x: number, y: number }',
+      'export class Base { size = 1 }',
+      'export class Box extends Base { width = 2 }',
+      '',
+    ].join('\n'))
+    fs.writeFileSync(path.join(root, 'src', 'b.ts'), "import { helper } from './a'\nexport const other = 1\nhelper()\n")
+    fs.writeFileSync(path.join(root, 'src', 'c.ts'), "import * as A from './a'\nexport const spare = 1\nA.util()\n")
+  })
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('renames a symbol and its imports across the project', async () => {
+    const plan = await planRename(root, { name: 'helper' }, 'fresh')
+    expect(plan?.changes.map(({ fileName }) => fileName)).toEqual(['src/a.ts', 'src/b.ts'])
+    expect(plan?.changes[1].after).toBe("import { fresh } from './a'\nexport const other = 1\nfresh()\n")
+  })
+
+  it('refuses a name declared in a file that uses the symbol', async () => {
+    await expect(planRename(root, { name: 'helper' }, 'other'))
+      .rejects.toMatchObject({ code: 'ECONFLICT', message: expect.stringContaining('src/b.ts:2') })
+  })
+
+  it('refuses a name declared in the same scope', async () => {
+    await expect(planRename(root, { fileName: a, line: 3, column: 21 }, 'b')).rejects.toMatchObject({ code: 'ECONFLICT' })
+  })
+
+  it('refuses the name of another member, inherited ones included', async () => {
+    await expect(planRename(root, { fileName: a, line: 4, column: 26 }, 'y')).rejects.toMatchObject({ code: 'ECONFLICT' })
+    await expect(planRename(root, { fileName: a, line: 6, column: 33 }, 'size')).rejects.toMatchObject({ code: 'ECONFLICT' })
+  })
+
+  it('allows names that are only taken behind a namespace or by a library global', async () => {
+    await expect(planRename(root, { name: 'util' }, 'spare')).resolves.toBeDefined()
+    await expect(planRename(root, { name: 'util' }, 'setTimeout')).resolves.toBeDefined()
+  })
+})
+
+describe('planMoveFunction', () => {
+  let root: string
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'move-')))
+    fs.mkdirSync(path.join(root, 'src'))
+    fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true }, include: ['src'] }))
+    fs.writeFileSync(path.join(root, 'src', 'a.ts'), `// ${'😀'.repeat(20)}\nexport function moved() { return 1 }\nexport function other() { return 2 }\n`)
+  })
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('finds the function to move after multi-byte content', async () => {
+    const plan = await planMoveFunction(root, path.join(root, 'src', 'a.ts'), 'moved', path.join(root, 'src', 'b.ts'))
+    const created = plan?.changes.find(({ fileName }) => fileName === 'src/b.ts')
+    expect(created?.after).toContain('export function moved() { return 1 }')
+    expect(created?.after).not.toContain('other')
+  })
+})
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { setProjectDenyList } from '../src/file-utils';
+import { resolveSandboxedPath, SandboxError } from '../src/sandbox';
+
+describe('resolveSandboxedPath', () => {
+  let root: string
+  let outside: string
+
+  beforeAll(() => {
+    const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-')))
+    root = path.join(base, 'project')
+    outside = path.join(base, 'outside')
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true })
+    fs.mkdirSync(path.join(root, 'build'))
+    fs.mkdirSync(outside)
+    fs.writeFileSync(path.join(root, 'src', 'index.ts'), 'export {}\n')
+    fs.writeFileSync(path.join(root, '.env'), 'SECRET=1\n')
+    fs.writeFileSync(path.join(root, '.gitignore'), 'build/\n*.log\n')
+    fs.writeFileSync(path.join(root, 'build', 'out.js'), '\n')
+    fs.writeFileSync(path.join(root, 'debug.log'), '\n')
+    fs.writeFileSync(path.join(root, 'secrets.json'), '{}\n')
+    fs.writeFileSync(path.join(outside, 'passwd'), 'root\n')
+    fs.symlinkSync(outside, path.join(root, 'escape'))
+    fs.symlinkSync(path.join(root, '.env'), path.join(root, 'env-link'))
+    fs.symlinkSync(path.join(root, 'src'), path.join(root, 'sources'))
+  })
+
+  afterAll(() => {
+    setProjectDenyList(root, [])
+    fs.rmSync(path.dirname(root), { recursive: true, force: true })
+  })
+
+  const rejects = (fileName: string, message: RegExp) =>
+    expect(resolveSandboxedPath(root, fileName)).rejects.toThrow(message)
+
+  it('resolves files inside the project, and files that do not exist yet', async () => {
+    await expect(resolveSandboxedPath(root, 'src/index.ts')).resolves.toBe(path.join(root, 'src', 'index.ts'))
+    await expect(resolveSandboxedPath(root, 'src/new/file.ts')).resolves.toBe(path.join(root, 'src', 'new', 'file.ts'))
+    await expect(resolveSandboxedPath(root, 'src/../src/index.ts')).resolves.toBe(path.join(root, 'src', 'index.ts'))
+  })
+
+  it('rejects paths escaping the root with ..', async () => {
+    await rejects('../outside/passwd', /outside of the project/)
+    await rejects('src/../../outside/passwd', /outside of the project/)
+    await rejects('..', /outside of the project/)
+  })
+
+  it('rejects percent-encoded traversal once decoded, and keeps it inside the root when not', async () => {
+    await rejects(decodeURIComponent('..%2F..%2Fetc%2Fpasswd'), /outside of the project/)
+    await rejects(decodeURIComponent('%2e%2e/outside/passwd'), /outside of the project/)
+    await expect(resolveSandboxedPath(root, '%2e%2e/outside/passwd')).resolves.toBe(path.join(root, '%2e%2e', 'outside', 'passwd'))
+  })
+
+  it('rejects absolute paths and null bytes', async () => {
+    await rejects('/etc/passwd', /Absolute paths/)
+    await rejects(path.join(root, 'src', 'index.ts'), /Absolute paths/)
+    await rejects('C:\\Windows\\win.ini', /Absolute paths/)
+    await rejects('src/index.ts\0.png', /null byte/)
+  })
+
+  it('rejects symlinks pointing outside of the root', async () => {
+    await rejects('escape/passwd', /symbolic link/)
+    await rejects('escape', /symbolic link/)
+    await rejects('escape/new-file.txt', /symbolic link/)
+  })
+
+  it('follows symlinks that stay inside the root, unless they point at a denied file', async () => {
+    await expect(resolveSandboxedPath(root, 'sources/index.ts')).resolves.toBe(path.join(root, 'sources', 'index.ts'))
+    await rejects('env-link', /ignored or deny-listed/)
+  })
+
+  it('rejects .env files and the other entries of the deny list', async () => {
+    await rejects('.env', /ignored or deny-listed/)
+    await rejects('.env.local', /ignored or deny-listed/)
+    await rejects('.git/config', /ignored or deny-listed/)
+    await rejects('node_modules/pkg/index.js', /ignored or deny-listed/)
+    await rejects('.code-plugin/history.jsonl', /ignored or deny-listed/)
+  })
+
+  it('rejects gitignored files and the files of gitignored directories', async () => {
+    await rejects('debug.log', /ignored or deny-listed/)
+    await rejects('build/out.js', /ignored or deny-listed/)
+    await rejects('build', /ignored or deny-listed/)
+  })
+
+  it('rejects the patterns denied in the project', async () => {
+    await expect(resolveSandboxedPath(root, 'secrets.json')).resolves.toBe(path.join(root, 'secrets.json'))
+    setProjectDenyList(root, ['secrets.json'])
+    await rejects('secrets.json', /ignored or deny-listed/)
+  })
+
+  it('raises sandbox errors with the requested file name', async () => {
+    const err = await resolveSandboxedPath(root, '../outside/passwd').catch(err => err)
+    expect(err).toBeInstanceOf(SandboxError)
+    expect(err).toMatchObject({ code: 'ESANDBOX', fileName: '../outside/passwd' })
+  })
+})
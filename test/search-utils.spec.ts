@@ -0,0 +1,65 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { searchFileNames, searchFiles } from '../src/search-utils';
+
+describe('search', () => {
+  let root: string
+
+  const write = (fileName: string, content: string | Buffer) => {
+    fs.mkdirSync(path.dirname(path.join(root, fileName)), { recursive: true })
+    fs.writeFileSync(path.join(root, fileName), content)
+  }
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'search-')))
+    write('.gitignore', 'build/\n')
+    write('src/a.ts', 'const TODO = 1\n// todo: one\n// todo: two\n')
+    write('src/b.js', 'todo()\n')
+    write('build/out.js', 'todo()\n')
+    write('big.txt', `todo\n${'x'.repeat(1024 * 1024)}\n`)
+    write('image.bin', Buffer.from('todo\0\x01\x02'))
+  })
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('finds every match with its line, column and context, skipping ignored, large and binary files', async () => {
+    const page = await searchFiles(root, { query: 'todo', context: 1 })
+    expect(page.total).toBe(4)
+    expect(page.results.map(({ fileName, line, column }) => `${fileName}:${line}:${column}`))
+      .toEqual(['src/a.ts:1:7', 'src/a.ts:2:4', 'src/a.ts:3:4', 'src/b.js:1:1'])
+    expect(page.results[1]).toMatchObject({ text: '// todo: one', before: ['const TODO = 1'], after: ['// todo: two'] })
+  })
+
+  it('pages through the matches with an exact total', async () => {
+    const first = await searchFiles(root, { query: 'todo', limit: 3 })
+    expect(first).toMatchObject({ total: 4, offset: 0, limit: 3, nextOffset: 3 })
+    expect(first.results).toHaveLength(3)
+    const last = await searchFiles(root, { query: 'todo', limit: 3, offset: 3 })
+    expect(last).toMatchObject({ total: 4, offset: 3, nextOffset: undefined })
+    expect(last.results.map(({ fileName }) => fileName)).toEqual(['src/b.js'])
+  })
+
+  it('matches case sensitively, by regular expression and within the globs', async () => {
+    expect((await searchFiles(root, { query: 'TODO', caseSensitive: true })).total).toBe(1)
+    expect((await searchFiles(root, { query: 'todo: \\w+', regex: true })).total).toBe(2)
+    expect((await searchFiles(root, { query: 'todo', glob: ['*.js'] })).results.map(({ fileName }) => fileName)).toEqual(['src/b.js'])
+  })
+
+  it('does not loop on empty matches', async () => {
+    expect((await searchFiles(root, { query: '^', regex: true, glob: ['src/b.js'] })).total).toBe(2)
+  })
+
+  it('refuses invalid regular expressions', async () => {
+    await expect(searchFiles(root, { query: '(', regex: true })).rejects.toMatchObject({ code: 'EINVAL' })
+  })
+
+  it('fuzzy matches file names, best first and paged', async () => {
+    const page = await searchFileNames(root, { query: 'srca', limit: 1 })
+    expect(page).toMatchObject({ total: 1, nextOffset: undefined })
+    expect(page.results[0].fileName).toBe('src/a.ts')
+    expect((await searchFileNames(root, { query: 'out' })).results).toEqual([])
+  })
+})